@@ -1,9 +1,82 @@
 import { PinataSDK } from 'pinata-web3';
 import { classifyRequest, getHashedIp, getNormalizedReferrer, trackPageView } from './utils/analytics';
+import {
+	backfillDomainMetadata,
+	CustomDomainMapping,
+	DomainNamespace,
+	domainMappingsToCsv,
+	LegacyDomainMapping,
+	listAllDomainMappings,
+	listDomainMappings,
+	MetadataBackfillRequiredError,
+	recordDomainMetric,
+	resolveSiteKey,
+} from './utils/domains';
+import { listAuditEntries, readAuditBody, recordAuditEntry, shouldRecordFailedAuth } from './utils/audit';
+import { authenticateAdminRequest } from './utils/auth';
+import { getCorsHeaders, getCorsPolicy, preflightResponse } from './utils/cors';
+import {
+	DispatchOptions,
+	FunctionsRecord,
+	getDispatchOptions,
+	getExceededLimit,
+	getFunctionRoutes,
+	limitExceededResponse,
+	matchFunctionRoute,
+} from './utils/functions';
+import { checkEntitlement, getEntitlements, PlanEntitlements } from './utils/entitlements';
+import { applySiteHeaders, hasCustomHeaders, SiteHeaderPolicy } from './utils/headers';
+import {
+	CompiledRedirect,
+	compileRedirects,
+	getRewritePath,
+	isAllowedRewriteHost,
+	isExternalDestination,
+	isRewrite,
+	isStatusRewrite,
+	matchRedirect,
+	Redirect,
+	RedirectMatch,
+} from './utils/redirects';
+import { ChallengeKind, getChallengeBody } from './utils/challenges';
+import { getBandwidthUsage, recordBandwidth } from './utils/bandwidth';
+import { passwordRequiredResponse, verifySitePassword } from './utils/password';
+import { CloudflareApiError, findCustomHostname, getCustomHostnameStatus, normalizeCustomHostname } from './utils/cloudflare';
+import { getEdgeCacheKey, matchEdgeCache, storeInEdgeCache } from './utils/cache';
+import { fetchPrecompressed, getCompressibleType, getKnownEncoding } from './utils/encoding';
+import { getContentEtag, HTML_TRANSFORM_VERSION, matchesIfNoneMatch, notModified } from './utils/etag';
+import { rewriteHtml } from './utils/html';
+import { MAX_MIGRATION_BATCH, migrateLegacyDomains } from './utils/migration';
+import { domainNotConnectedResponse, siteNotFoundResponse } from './utils/pages';
+import { handleRangeRequest } from './utils/range';
+import { setOrbiterContext } from './utils/requestContext';
+import { invalidateSiteResolution, resolveSite, SiteRecord } from './utils/resolution';
+import { getSiteRoutingFiles } from './utils/routing';
+import { getCronStatus, runScheduledFunctions, updateCronIndex } from './utils/scheduled';
+import {
+	assertNoDomainConflict,
+	assertSiteExists,
+	normalizeHostname,
+	optionalBoolean,
+	optionalString,
+	readJsonBody,
+	requireArray,
+	requireHostname,
+	requireMappableHostname,
+	requireSiteKey,
+	ValidationError,
+	validationErrorResponse,
+} from './utils/validation';
+import { getWellKnownContentType, isChallengePath, isWellKnownPath } from './utils/wellKnown';
 
 export interface Env {
 	ALCHEMY_URL: string;
 	ORBITER_ADMIN_KEY: string;
+	// JSON array of named admin keys with scopes, see utils/auth
+	ORBITER_ADMIN_KEYS?: string;
+	// Token for the analytics service, falls back to the admin key until it's set
+	ORBITER_ANALYTICS_TOKEN?: string;
+	ADMIN_AUDIT_LOG: KVNamespace;
 	ORBITER_SITES: KVNamespace;
 	SITE_CONTRACT: KVNamespace;
 	PINATA_GATEWAY: string;
@@ -17,6 +90,18 @@ export interface Env {
 	// NEW: Add these for SSL challenge handling
 	CLOUDFLARE_API_TOKEN: string;
 	CLOUDFLARE_ZONE_ID: string;
+	// Points the Cloudflare API client at a mock server for local testing
+	CLOUDFLARE_API_BASE_URL?: string;
+
+	// Comma separated hosts that status 200 rewrite rules may proxy to
+	REWRITE_ALLOWED_HOSTS?: string;
+
+	// Only serve unknown hostnames as legacy domains when they're on the allow-list
+	STRICT_DOMAIN_RESOLUTION?: string;
+	// `true` applies plan CPU, subrequest and egress limits to functions, existing sites run unrestricted until then
+	FUNCTION_LIMITS_ENFORCED?: string;
+	LEGACY_FALLBACK_DOMAINS?: string;
+	DOMAIN_METRICS?: AnalyticsEngineDataset;
 
 	// Add dispatcher binding for API requests
 	dispatcher: Dispatcher;
@@ -28,8 +113,9 @@ interface Dispatcher {
 		scriptName: string,
 		args?: { init?: RequestInit },
 		getOptions?: {
-			limits?: { cpuMs?: number; memory?: number };
-			outbound?: string;
+			limits?: { cpuMs?: number; subRequests?: number };
+			// Parameters handed to the namespace's outbound worker
+			outbound?: Record<string, unknown>;
 		}
 	) => Worker;
 }
@@ -38,169 +124,57 @@ interface Worker {
 	fetch: (request: Request) => Promise<Response>;
 }
 
-interface Redirect {
-	source: string;
-	destination: string;
-	status: number;
-	force?: boolean;
-}
-
-interface CustomDomainMapping {
-	subdomain: string;
-	created: string;
-	cloudflare_hostname_id?: string;
-	worker_route_id?: string;
-	type: 'cloudflare-saas'; // New domains use Cloudflare for SaaS
-}
-
-interface LegacyDomainMapping {
-	subdomain: string;
-	created: string;
-	type: 'digital-ocean'; // Legacy domains through Digital Ocean
-}
-
-// Enhanced domain resolution with dual-mode support
-async function resolveSiteKey(hostname: string, env: Env): Promise<{
-	siteKey: string;
-	domainType: 'native' | 'cloudflare-saas' | 'digital-ocean';
-	isLegacy: boolean;
-}> {
-	console.log(`Resolving hostname: ${hostname}`);
-
-	// 1. Check if it's a native *.orbiter.website domain
-	if (hostname.endsWith('orbiter.website')) {
-		const siteKey = hostname.split('.')[0];
-		return {
-			siteKey,
-			domainType: 'native',
-			isLegacy: false
-		};
-	}
-
-	// 2. Check if it's a new Cloudflare for SaaS custom domain
-	const customDomainMapping = await env.CUSTOM_DOMAINS.get(hostname);
-	if (customDomainMapping) {
-		const mapping: CustomDomainMapping = JSON.parse(customDomainMapping);
-		console.log(`Cloudflare for SaaS domain ${hostname} maps to subdomain: ${mapping.subdomain}`);
-		return {
-			siteKey: mapping.subdomain,
-			domainType: 'cloudflare-saas',
-			isLegacy: false
-		};
-	}
-
-	// 3. Check if it's a legacy Digital Ocean domain
-	const legacyDomainMapping = await env.LEGACY_DOMAINS.get(hostname);
-	if (legacyDomainMapping) {
-		const mapping: LegacyDomainMapping = JSON.parse(legacyDomainMapping);
-		console.log(`Legacy Digital Ocean domain ${hostname} maps to subdomain: ${mapping.subdomain}`);
-		return {
-			siteKey: mapping.subdomain,
-			domainType: 'digital-ocean',
-			isLegacy: true
-		};
-	}
-
-	// 4. Fallback: treat unknown domains as potential legacy domains
-	// This handles existing customers whose domains weren't in LEGACY_DOMAINS yet
-	console.log(`Unknown domain ${hostname}, treating as potential legacy domain`);
-	return {
-		siteKey: hostname,
-		domainType: 'digital-ocean',
-		isLegacy: true
-	};
-}
-
 // NEW: Handle SSL validation challenges
-async function handleSSLValidationChallenge(request: Request, env: Env): Promise<Response> {
+async function handleSSLValidationChallenge(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 	const url = new URL(request.url);
 	const hostname = url.hostname;
 	const pathName = url.pathname;
 	
 	console.log(`SSL validation challenge request: ${hostname}${pathName}`);
 
-	// Handle ACME challenge (for SSL certificate validation)
-	if (pathName.startsWith('/.well-known/acme-challenge/')) {
-		const token = pathName.split('/').pop();
-		console.log(`ACME challenge token: ${token}`);
-		
-		// Get the domain mapping to find the custom hostname ID
-		const domainMapping = await getDomainMapping(hostname, env);
-		if (!domainMapping) {
-			console.log(`No domain mapping found for ${hostname}`);
-			return new Response('Domain not configured', { status: 404 });
-		}
-
-		// Get the current challenge details from Cloudflare
-		try {
-			const customHostname = await getCustomHostnameStatus(domainMapping.cloudflare_hostname_id, env);
-			
-			// Find the matching validation record
-			const validationRecord = customHostname.ssl.validation_records?.find((record: any) => 
-				record.http_url && record.http_url.includes(token)
-			);
+	// Handle ACME challenge (for SSL certificate validation) and
+	// Cloudflare custom hostname challenge (for domain ownership), only challenge paths are routed here
+	const kind: ChallengeKind = pathName.startsWith('/.well-known/acme-challenge/') ? 'acme' : 'ownership';
 
-			if (validationRecord && validationRecord.http_body) {
-				console.log(`Serving ACME challenge for ${hostname}: ${validationRecord.http_body}`);
-				return new Response(validationRecord.http_body, {
-					status: 200,
-					headers: {
-						'Content-Type': 'text/plain',
-						'Cache-Control': 'no-cache'
-					}
-				});
-			}
-
-			console.log(`No matching validation record found for token: ${token}`);
-			return new Response('Challenge not found', { status: 404 });
-
-		} catch (error) {
-			console.error('Error fetching validation challenge:', error);
-			return new Response('Error retrieving challenge', { status: 500 });
-		}
+	const token = pathName.split('/').pop();
+	console.log(`${kind} challenge token: ${token}`);
+	if (!token) {
+		return new Response('Challenge not found', { status: 404 });
+	}
+	
+	// Get the domain mapping to find the custom hostname ID
+	const domainMapping = await getDomainMapping(hostname, env);
+	if (!domainMapping?.cloudflare_hostname_id) {
+		console.log(`No domain mapping found for ${hostname}`);
+		return new Response('Domain not configured', { status: 404 });
 	}
 
-	// Handle Cloudflare custom hostname challenge (for domain ownership)
-	if (pathName.startsWith('/.well-known/cf-custom-hostname-challenge/')) {
-		const challengeId = pathName.split('/').pop();
-		console.log(`CF custom hostname challenge: ${challengeId}`);
-		
-		// Get the domain mapping
-		const domainMapping = await getDomainMapping(hostname, env);
-		if (!domainMapping) {
-			console.log(`No domain mapping found for ${hostname}`);
-			return new Response('Domain not configured', { status: 404 });
-		}
+	// Get the current challenge details, cached briefly since validators retry a lot
+	try {
+		const body = await getChallengeBody(hostname, kind, token, domainMapping.cloudflare_hostname_id, env, ctx);
 
-		// Get the ownership verification details from Cloudflare
-		try {
-			const customHostname = await getCustomHostnameStatus(domainMapping.cloudflare_hostname_id, env);
-			
-			if (customHostname.ownership_verification_http && 
-				customHostname.ownership_verification_http.http_url.includes(challengeId)) {
-				
-				console.log(`Serving CF hostname challenge for ${hostname}: ${customHostname.ownership_verification_http.http_body}`);
-				return new Response(customHostname.ownership_verification_http.http_body, {
-					status: 200,
-					headers: {
-						'Content-Type': 'text/plain',
-						'Cache-Control': 'no-cache'
-					}
-				});
-			}
+		if (body) {
+			console.log(`Serving ${kind} challenge for ${hostname}: ${body}`);
+			return new Response(body, {
+				status: 200,
+				headers: {
+					'Content-Type': 'text/plain',
+					'Cache-Control': 'no-cache'
+				}
+			});
+		}
 
-			console.log(`No matching ownership verification found for: ${challengeId}`);
-			return new Response('Challenge not found', { status: 404 });
+		console.log(`No matching ${kind} challenge found for token: ${token}`);
+		return new Response('Challenge not found', { status: 404 });
 
-		} catch (error) {
-			console.error('Error fetching ownership challenge:', error);
-			return new Response('Error retrieving challenge', { status: 500 });
-		}
+	} catch (error) {
+		console.error(`Error fetching ${kind} challenge:`, error);
+		// Tell the validator to retry later rather than that the challenge failed
+		return new Response('Error retrieving challenge', {
+			status: 503,
+			headers: { 'Retry-After': '30' }
+		});
 	}
-
-	// Unknown .well-known path
-	console.log(`Unknown .well-known path: ${pathName}`);
-	return new Response('Not found', { status: 404 });
 }
 
 // NEW: Helper function to get domain mapping
@@ -220,110 +194,55 @@ async function getDomainMapping(hostname: string, env: Env): Promise<any> {
 	return null;
 }
 
-// NEW: Helper function to get custom hostname status
-async function getCustomHostnameStatus(customHostnameId: string, env: Env): Promise<any> {
-	const response = await fetch(`https://api.cloudflare.com/client/v4/zones/${env.CLOUDFLARE_ZONE_ID}/custom_hostnames/${customHostnameId}`, {
-		headers: {
-			'Authorization': `Bearer ${env.CLOUDFLARE_API_TOKEN}`,
-		}
-	});
-	
-	const data = await response.json() as any;
-	return data.result;
-}
-
-// Helper function to parse Range header
-function parseRangeHeader(rangeHeader: string, contentLength: number): { start: number; end: number } | null {
-	const match = rangeHeader.match(/bytes=(\d+)-(\d*)/);
-	if (!match) return null;
-
-	const start = parseInt(match[1], 10);
-	const end = match[2] ? parseInt(match[2], 10) : contentLength - 1;
-
-	if (start >= contentLength || end >= contentLength || start > end) {
-		return null;
+// Fetch a path from the site's CID, extensionless paths try `/index.html` and then `.html`
+async function fetchSitePath(gatewayUrl: string, cleanPath: string): Promise<Response> {
+	if (!cleanPath) {
+		return fetch(`${gatewayUrl}/index.html`);
 	}
 
-	return { start, end };
-}
-
-// Helper function to handle range requests for media files
-async function handleRangeRequest(
-	gatewayUrl: string,
-	cleanPath: string,
-	rangeHeader: string,
-	cid: string,
-	contract: string
-): Promise<Response> {
-	const headResponse = await fetch(`${gatewayUrl}/${cleanPath}`, { method: 'HEAD' });
-	if (!headResponse.ok) {
-		return new Response('File not found', { status: 404 });
+	if (cleanPath.split('/').pop()?.includes('.')) {
+		return fetch(`${gatewayUrl}/${cleanPath}`);
 	}
 
-	const contentLength = parseInt(headResponse.headers.get('Content-Length') || '0', 10);
-	if (!contentLength) {
-		const fullResponse = await fetch(`${gatewayUrl}/${cleanPath}`);
-		return new Response(fullResponse.body, {
-			status: 200,
-			headers: {
-				'Content-Type': fullResponse.headers.get('Content-Type') || 'application/octet-stream',
-				'Content-Length': fullResponse.headers.get('Content-Length') || '0',
-				'Accept-Ranges': 'bytes',
-				'Cache-Control': 'public, max-age=3600',
-				'Powered-By': 'Orbiter',
-				'orb-cid': cid || '',
-				'orb-contract': contract || '',
-			},
-		});
-	}
-
-	const range = parseRangeHeader(rangeHeader, contentLength);
-	if (!range) {
-		return new Response('Invalid range', { status: 416 });
-	}
+	const basePath = cleanPath.replace(/\/$/, '');
+	const response = await fetch(`${gatewayUrl}/${basePath}/index.html`);
+	return response.ok ? response : fetch(`${gatewayUrl}/${basePath}.html`);
+}
 
-	const rangeResponse = await fetch(`${gatewayUrl}/${cleanPath}`, {
-		headers: {
-			Range: `bytes=${range.start}-${range.end}`,
-		},
+// Serve an external URL in place for a rewrite rule, keeping the visitor's URL
+async function proxyRewrite(request: Request, destination: string, orbiterHeaders: Record<string, string>): Promise<Response> {
+	const upstreamRequest = new Request(destination, {
+		method: request.method,
+		headers: request.headers,
+		body: request.method === 'GET' || request.method === 'HEAD' ? null : request.body,
+		redirect: 'manual',
 	});
+	upstreamRequest.headers.delete('Host');
 
-	if (!rangeResponse.ok) {
-		const fullResponse = await fetch(`${gatewayUrl}/${cleanPath}`);
-		return new Response(fullResponse.body, {
-			status: 200,
-			headers: {
-				'Content-Type': fullResponse.headers.get('Content-Type') || 'application/octet-stream',
-				'Content-Length': contentLength.toString(),
-				'Accept-Ranges': 'bytes',
-				'Cache-Control': 'public, max-age=3600',
-				'Powered-By': 'Orbiter',
-				'orb-cid': cid || '',
-				'orb-contract': contract || '',
-			},
+	try {
+		const upstreamResponse = await fetch(upstreamRequest);
+		const headers = new Headers(upstreamResponse.headers);
+		// fetch already decoded the body, let the runtime encode it again for the client
+		headers.delete('Content-Encoding');
+		headers.delete('Content-Length');
+		for (const [name, value] of Object.entries(orbiterHeaders)) {
+			headers.set(name, value);
+		}
+
+		return new Response(upstreamResponse.body, {
+			status: upstreamResponse.status,
+			statusText: upstreamResponse.statusText,
+			headers,
 		});
+	} catch (error) {
+		console.error('Rewrite proxy error:', error);
+		return new Response('Bad Gateway', { status: 502, headers: { 'Content-Type': 'text/plain' } });
 	}
-
-	const contentRange = `bytes ${range.start}-${range.end}/${contentLength}`;
-	const partialContentLength = range.end - range.start + 1;
-
-	return new Response(rangeResponse.body, {
-		status: 206,
-		headers: {
-			'Content-Type': rangeResponse.headers.get('Content-Type') || 'application/octet-stream',
-			'Content-Length': partialContentLength.toString(),
-			'Content-Range': contentRange,
-			'Accept-Ranges': 'bytes',
-			'Cache-Control': 'public, max-age=3600',
-			'Powered-By': 'Orbiter',
-			'orb-cid': cid || '',
-			'orb-contract': contract || '',
-		},
-	});
 }
 
 // Handle API requests by proxying to customer worker
-async function handleApiRequest(request: Request, env: Env, siteKey: string): Promise<Response | null> {
+async function handleApiRequest(request: Request, env: Env, site: SiteRecord, entitlements: PlanEntitlements): Promise<Response | null> {
+	const siteKey = site.siteKey;
 	const workerKey = `worker:${siteKey}`;
 	console.log({ workerKey });
 	const workerData = await env.FUNCTIONS.get(workerKey);
@@ -345,50 +264,122 @@ async function handleApiRequest(request: Request, env: Env, siteKey: string): Pr
 		);
 	}
 
+	// Our own error responses follow the site's CORS policy too, so browsers can read them
+	let errorCorsHeaders: Record<string, string> = { 'Access-Control-Allow-Origin': '*' };
+	let dispatchOptions: DispatchOptions | null = null;
+
 	try {
-		const workerInfo = JSON.parse(workerData);
-		const worker = env.dispatcher.get(workerInfo.deployedName);
+		const workerInfo: FunctionsRecord = JSON.parse(workerData);
+		const corsPolicy = getCorsPolicy(workerInfo.cors);
+		errorCorsHeaders = corsPolicy ? getCorsHeaders(corsPolicy, request) : {};
 
 		const url = new URL(request.url);
+		const routeMatch = matchFunctionRoute(getFunctionRoutes(workerInfo), url.pathname, request.method);
+
+		if (routeMatch.type === 'not_found') {
+			return new Response(
+				JSON.stringify({
+					error: 'API route not found',
+					message: `No function is routed for ${url.pathname}`,
+				}),
+				{
+					status: 404,
+					headers: {
+						'Content-Type': 'application/json',
+						...errorCorsHeaders,
+					},
+				}
+			);
+		}
+
+		if (routeMatch.type === 'method_not_allowed') {
+			return new Response(
+				JSON.stringify({
+					error: 'Method not allowed',
+					message: `${request.method} is not allowed for ${url.pathname}`,
+				}),
+				{
+					status: 405,
+					headers: {
+						'Content-Type': 'application/json',
+						...errorCorsHeaders,
+						Allow: [...routeMatch.allow, 'OPTIONS'].join(', '),
+					},
+				}
+			);
+		}
+
+		// Preflights are answered here so they never cost an invocation or reach customer code
+		if (corsPolicy && request.method === 'OPTIONS') {
+			return preflightResponse(corsPolicy, request, routeMatch.route.methods);
+		}
+
+		dispatchOptions = getDispatchOptions(siteKey, workerInfo, entitlements, env.FUNCTION_LIMITS_ENFORCED === 'true');
+		const worker = env.dispatcher.get(routeMatch.route.script, {}, {
+			limits: dispatchOptions.limits,
+			outbound: { ...dispatchOptions.outbound },
+		});
+
 		const apiPath = url.pathname.substring(5); // Remove '/api'
 		const newUrl = new URL(apiPath || '/', url.origin);
 		newUrl.search = url.search;
 
+		// Client supplied X-Orbiter-* headers are dropped, only the context we sign reaches the function
+		const apiHeaders = new Headers(request.headers);
+		// Any client can send X-Original-Host, so the signed host is the one the request actually arrived on
+		apiHeaders.delete('X-Original-Host');
+		const requestId = crypto.randomUUID();
+		await setOrbiterContext(
+			apiHeaders,
+			{
+				host: url.host,
+				path: `${url.pathname}${url.search}`,
+				siteKey,
+				orgId: site.orgId,
+				cid: site.cid || '',
+				requestId,
+				timestamp: Math.floor(Date.now() / 1000),
+			},
+			workerInfo.contextSecret
+		);
+
 		const apiRequest = new Request(newUrl.toString(), {
 			method: request.method,
-			headers: request.headers,
+			headers: apiHeaders,
 			body: request.body,
 		});
 
 		const response = await worker.fetch(apiRequest);
+		const responseHeaders = new Headers(response.headers);
 
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-		};
-
-		if (request.method === 'OPTIONS') {
-			return new Response(null, {
-				status: 200,
-				headers: corsHeaders,
-			});
+		// With a policy in place it wins over whatever the function set, otherwise the function's headers pass through
+		if (corsPolicy) {
+			for (const name of [...responseHeaders.keys()]) {
+				if (name.startsWith('access-control-')) responseHeaders.delete(name);
+			}
+			for (const [name, value] of Object.entries(getCorsHeaders(corsPolicy, request))) {
+				if (name === 'Vary') responseHeaders.append(name, value);
+				else responseHeaders.set(name, value);
+			}
 		}
+		responseHeaders.set('Powered-By', 'Orbiter API');
+		responseHeaders.set('X-Orbiter-Request-Id', requestId);
 
 		const responseWithCors = new Response(response.body, {
 			status: response.status,
 			statusText: response.statusText,
-			headers: {
-				...Object.fromEntries(response.headers.entries()),
-				...corsHeaders,
-				'Powered-By': 'Orbiter API',
-			},
+			headers: responseHeaders,
 		});
 
 		return responseWithCors;
 	} catch (error) {
 		console.error('API worker execution error:', error);
 
+		const exceededLimit = getExceededLimit(error);
+		if (exceededLimit && dispatchOptions) {
+			return limitExceededResponse(exceededLimit, dispatchOptions, errorCorsHeaders);
+		}
+
 		if (error instanceof Error && error.message.includes('Worker not found')) {
 			return new Response(
 				JSON.stringify({
@@ -399,7 +390,7 @@ async function handleApiRequest(request: Request, env: Env, siteKey: string): Pr
 					status: 404,
 					headers: {
 						'Content-Type': 'application/json',
-						'Access-Control-Allow-Origin': '*',
+						...errorCorsHeaders,
 					},
 				}
 			);
@@ -414,31 +405,67 @@ async function handleApiRequest(request: Request, env: Env, siteKey: string): Pr
 				status: 500,
 				headers: {
 					'Content-Type': 'application/json',
-					'Access-Control-Allow-Origin': '*',
+					...errorCorsHeaders,
 				},
 			}
 		);
 	}
 }
 
-// Enhanced admin endpoint to manage both domain types
+// Authenticate admin requests and record every mutating call in the audit log
 async function handleAdminRequest(request: Request, env: Env): Promise<Response> {
 	const url = new URL(request.url);
-	const path = url.pathname;
-	
-	// Verify admin token
-	const authHeader = request.headers.get('Authorization');
-	const token = authHeader?.split(' ')[1];
-	
-	if (!token || token !== env.ORBITER_ADMIN_KEY) {
-		return new Response('Unauthorized', { status: 401 });
+	const isMutation = request.method !== 'GET' && request.method !== 'HEAD';
+	const ip = request.headers.get('CF-Connecting-IP');
+
+	const auth = await authenticateAdminRequest(request, env);
+	if (!auth.ok) {
+		// Failed attempts are logged without their body
+		if (isMutation && (await shouldRecordFailedAuth(env, ip))) {
+			await recordAuditEntry(env, {
+				keyName: auth.keyName || null,
+				method: request.method,
+				path: url.pathname,
+				status: auth.status,
+				ip,
+			});
+		}
+		return new Response(auth.error, { status: auth.status });
 	}
 
+	const auditBody = isMutation ? await readAuditBody(request) : undefined;
+	const response = await routeAdminRequest(request, env);
+
+	if (isMutation) {
+		await recordAuditEntry(env, {
+			keyName: auth.key.name,
+			method: request.method,
+			path: url.pathname,
+			status: response.status,
+			ip,
+			body: auditBody,
+		});
+	}
+
+	return response;
+}
+
+// Enhanced admin endpoint to manage both domain types
+async function routeAdminRequest(request: Request, env: Env): Promise<Response> {
+	const url = new URL(request.url);
+	const path = url.pathname;
+
 	// Create new Cloudflare for SaaS domain mapping
 	if (path === '/admin/custom-domains' && request.method === 'POST') {
 		try {
-			const body: any = await request.json();
-			const { domain, subdomain, cloudflare_hostname_id, worker_route_id } = body;
+			const body = await readJsonBody(request);
+			const domain = requireMappableHostname(body);
+			const subdomain = requireSiteKey(body);
+			const cloudflare_hostname_id = optionalString(body, 'cloudflare_hostname_id');
+			const worker_route_id = optionalString(body, 'worker_route_id');
+
+			await assertSiteExists(env, subdomain);
+			await assertNoDomainConflict(env, domain, 'custom');
 			
 			const mapping: CustomDomainMapping = {
 				subdomain,
@@ -448,7 +475,8 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				type: 'cloudflare-saas'
 			};
 			
-			await env.CUSTOM_DOMAINS.put(domain, JSON.stringify(mapping));
+			await env.CUSTOM_DOMAINS.put(domain, JSON.stringify(mapping), { metadata: mapping });
+			await invalidateSiteResolution(domain);
 			
 			return new Response(JSON.stringify({
 				status: 'success',
@@ -459,6 +487,9 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				headers: { 'Content-Type': 'application/json' }
 			});
 		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
 			return new Response(JSON.stringify({
 				error: 'Failed to create custom domain mapping',
 				details: error instanceof Error ? error.message : 'Unknown error'
@@ -472,8 +503,12 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 	// Create legacy domain mapping (for existing Digital Ocean domains)
 	if (path === '/admin/legacy-domains' && request.method === 'POST') {
 		try {
-			const body: any = await request.json();
-			const { domain, subdomain } = body;
+			const body = await readJsonBody(request);
+			const domain = requireMappableHostname(body);
+			const subdomain = requireSiteKey(body);
+
+			await assertSiteExists(env, subdomain);
+			await assertNoDomainConflict(env, domain, 'legacy');
 			
 			const mapping: LegacyDomainMapping = {
 				subdomain,
@@ -481,7 +516,8 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				type: 'digital-ocean'
 			};
 			
-			await env.LEGACY_DOMAINS.put(domain, JSON.stringify(mapping));
+			await env.LEGACY_DOMAINS.put(domain, JSON.stringify(mapping), { metadata: mapping });
+			await invalidateSiteResolution(domain);
 			
 			return new Response(JSON.stringify({
 				status: 'success',
@@ -492,6 +528,9 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				headers: { 'Content-Type': 'application/json' }
 			});
 		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
 			return new Response(JSON.stringify({
 				error: 'Failed to create legacy domain mapping',
 				details: error instanceof Error ? error.message : 'Unknown error'
@@ -505,9 +544,10 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 	// Delete domain mappings
 	if (path === '/admin/custom-domains' && request.method === 'DELETE') {
 		try {
-			const body: any = await request.json();
-			const { domain } = body;
+			const body = await readJsonBody(request);
+			const domain = requireHostname(body);
 			await env.CUSTOM_DOMAINS.delete(domain);
+			await invalidateSiteResolution(domain);
 			
 			return new Response(JSON.stringify({
 				status: 'success',
@@ -516,6 +556,9 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				headers: { 'Content-Type': 'application/json' }
 			});
 		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
 			return new Response(JSON.stringify({
 				error: 'Failed to delete custom domain mapping',
 				details: error instanceof Error ? error.message : 'Unknown error'
@@ -528,9 +571,10 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 
 	if (path === '/admin/legacy-domains' && request.method === 'DELETE') {
 		try {
-			const body: any = await request.json();
-			const { domain } = body;
+			const body = await readJsonBody(request);
+			const domain = requireHostname(body);
 			await env.LEGACY_DOMAINS.delete(domain);
+			await invalidateSiteResolution(domain);
 			
 			return new Response(JSON.stringify({
 				status: 'success',
@@ -539,6 +583,9 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 				headers: { 'Content-Type': 'application/json' }
 			});
 		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
 			return new Response(JSON.stringify({
 				error: 'Failed to delete legacy domain mapping',
 				details: error instanceof Error ? error.message : 'Unknown error'
@@ -549,6 +596,58 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 		}
 	}
 
+	// Ownership and SSL validation state of a Cloudflare for SaaS domain
+	if (path === '/admin/custom-domains/status' && request.method === 'GET') {
+		try {
+			const domain = normalizeHostname(url.searchParams.get('domain'));
+			const value = await env.CUSTOM_DOMAINS.get(domain);
+			if (!value) {
+				throw new ValidationError(404, 'domain_not_found', `${domain} is not a custom domain`, 'domain');
+			}
+
+			const mapping: CustomDomainMapping = JSON.parse(value);
+			const customHostname = mapping.cloudflare_hostname_id
+				? await getCustomHostnameStatus(mapping.cloudflare_hostname_id, env)
+				: await findCustomHostname(domain, env);
+			if (!customHostname) {
+				throw new ValidationError(404, 'custom_hostname_not_found', `No Cloudflare custom hostname exists for ${domain}`, 'domain');
+			}
+
+			return new Response(JSON.stringify({
+				domain,
+				subdomain: mapping.subdomain,
+				...normalizeCustomHostname(customHostname)
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
+			if (error instanceof CloudflareApiError) {
+				// A stale hostname ID shows up as a 404 from the API, anything else is Cloudflare's problem
+				return new Response(JSON.stringify({
+					error: {
+						code: error.status === 404 ? 'custom_hostname_not_found' : 'cloudflare_api_error',
+						message: error.message,
+						upstreamStatus: error.status,
+						upstreamErrors: error.errors
+					}
+				}), {
+					status: error.status === 404 ? 404 : 502,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to get custom domain status',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
 	// Get domain info (useful for debugging)
 	if (path === '/admin/domain-info' && request.method === 'GET') {
 		try {
@@ -577,6 +676,302 @@ async function handleAdminRequest(request: Request, env: Env): Promise<Response>
 		}
 	}
 
+	// List domain mappings page by page, optionally only the ones pointing at one site
+	if ((path === '/admin/custom-domains' || path === '/admin/legacy-domains') && request.method === 'GET') {
+		try {
+			const namespace: DomainNamespace = path === '/admin/custom-domains' ? 'custom' : 'legacy';
+			const page = await listDomainMappings(env, namespace, {
+				cursor: url.searchParams.get('cursor'),
+				limit: parseInt(url.searchParams.get('limit') || '', 10) || undefined,
+				subdomain: url.searchParams.get('subdomain'),
+			});
+
+			return new Response(JSON.stringify(page), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof MetadataBackfillRequiredError) {
+				return validationErrorResponse(new ValidationError(409, 'backfill_required', error.message));
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to list domain mappings',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Reverse lookup: every domain pointing at a site
+	if (path === '/admin/site-domains' && request.method === 'GET') {
+		try {
+			const siteKey = url.searchParams.get('siteKey');
+			if (!siteKey) {
+				return new Response('siteKey parameter required', { status: 400 });
+			}
+
+			const [custom, legacy] = await Promise.all([
+				listAllDomainMappings(env, 'custom', siteKey),
+				listAllDomainMappings(env, 'legacy', siteKey),
+			]);
+
+			return new Response(JSON.stringify({
+				siteKey,
+				nativeDomain: `${siteKey}.orbiter.website`,
+				domains: [...custom, ...legacy]
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof MetadataBackfillRequiredError) {
+				return validationErrorResponse(new ValidationError(409, 'backfill_required', error.message));
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to look up site domains',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Bulk export of both namespaces as JSON or CSV
+	if (path === '/admin/domains/export' && request.method === 'GET') {
+		try {
+			const format = url.searchParams.get('format') || 'json';
+			const type = url.searchParams.get('type') || 'all';
+			if (format !== 'json' && format !== 'csv') {
+				return new Response('format must be json or csv', { status: 400 });
+			}
+			if (type !== 'all' && type !== 'custom' && type !== 'legacy') {
+				return new Response('type must be all, custom or legacy', { status: 400 });
+			}
+
+			const namespaces: DomainNamespace[] = type === 'all' ? ['custom', 'legacy'] : [type];
+			const subdomain = url.searchParams.get('subdomain');
+			const domains = (await Promise.all(namespaces.map((namespace) => listAllDomainMappings(env, namespace, subdomain)))).flat();
+			const filename = `orbiter-domains-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+			if (format === 'csv') {
+				return new Response(domainMappingsToCsv(domains), {
+					headers: {
+						'Content-Type': 'text/csv; charset=utf-8',
+						'Content-Disposition': `attachment; filename="${filename}"`
+					}
+				});
+			}
+
+			return new Response(JSON.stringify({
+				exported: new Date().toISOString(),
+				count: domains.length,
+				domains
+			}), {
+				headers: {
+					'Content-Type': 'application/json',
+					'Content-Disposition': `attachment; filename="${filename}"`
+				}
+			});
+		} catch (error) {
+			if (error instanceof MetadataBackfillRequiredError) {
+				return validationErrorResponse(new ValidationError(409, 'backfill_required', error.message));
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to export domain mappings',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Give one page of mappings from before listing used metadata their metadata, call again with the cursor until complete
+	if (path === '/admin/domains/backfill-metadata' && request.method === 'POST') {
+		try {
+			const body = await readJsonBody(request);
+			if (body.namespace !== 'custom' && body.namespace !== 'legacy') {
+				throw new ValidationError(400, 'invalid_namespace', 'namespace must be custom or legacy', 'namespace');
+			}
+
+			const page = await backfillDomainMetadata(env, body.namespace, optionalString(body, 'cursor'));
+			return new Response(JSON.stringify(page), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to backfill domain metadata',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Batch move legacy Digital Ocean domains to Cloudflare for SaaS
+	if (path === '/admin/domains/migrate' && request.method === 'POST') {
+		try {
+			const body = await readJsonBody(request);
+			const domains = requireArray(body, 'domains', MAX_MIGRATION_BATCH);
+			const dryRun = optionalBoolean(body, 'dryRun') ?? false;
+
+			const results = await migrateLegacyDomains(domains, env, dryRun);
+			const summary = {
+				total: results.length,
+				migrated: results.filter((result) => result.status === 'migrated').length,
+				pendingActivation: results.filter((result) => result.status === 'pending_activation').length,
+				errors: results.filter((result) => result.status === 'error').length
+			};
+
+			return new Response(JSON.stringify({
+				status: 'success',
+				dryRun,
+				summary,
+				results
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to migrate domains',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Drop cached hostname resolutions after changing a site's CID, plan or redirects
+	if (path === '/admin/cache/invalidate' && request.method === 'POST') {
+		try {
+			const body = await readJsonBody(request);
+			const hostnames = body.hostnames !== undefined
+				? requireArray(body, 'hostnames', 100).map((hostname) => normalizeHostname(hostname, 'hostnames'))
+				: [requireHostname(body, 'hostname')];
+
+			const results = await Promise.all(
+				hostnames.map(async (hostname) => ({ hostname, invalidated: await invalidateSiteResolution(hostname) }))
+			);
+
+			return new Response(JSON.stringify({
+				status: 'success',
+				message: 'Cached resolutions cleared in this location, other locations expire within a minute',
+				results
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to invalidate cache',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Refresh a site's cron schedules right after its functions are deployed or removed,
+	// otherwise the scan on each tick picks the change up within a few minutes
+	if (path === '/admin/functions/cron-index' && request.method === 'POST') {
+		try {
+			const body = await readJsonBody(request);
+			const siteKey = requireSiteKey(body, 'siteKey');
+			const index = await updateCronIndex(env, siteKey);
+
+			return new Response(JSON.stringify({
+				updatedAt: index.updatedAt,
+				sites: Object.keys(index.sites).length,
+				schedules: index.sites[siteKey] || []
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return validationErrorResponse(error);
+			}
+			return new Response(JSON.stringify({
+				error: 'Failed to update cron index',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Last run of each scheduled function of a site
+	if (path === '/admin/functions/cron-status' && request.method === 'GET') {
+		try {
+			const siteKey = url.searchParams.get('siteKey');
+			if (!siteKey) {
+				return new Response('siteKey parameter required', { status: 400 });
+			}
+
+			const status = await getCronStatus(env, siteKey);
+			if (!status) {
+				return new Response(JSON.stringify({
+					error: 'No scheduled runs recorded',
+					siteKey
+				}), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+
+			return new Response(JSON.stringify({
+				siteKey,
+				crons: Object.values(status)
+			}), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			return new Response(JSON.stringify({
+				error: 'Failed to get cron status',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	// Query the audit log, newest first
+	if (path === '/admin/audit-log' && request.method === 'GET') {
+		try {
+			const limit = parseInt(url.searchParams.get('limit') || '', 10);
+			const page = await listAuditEntries(env, {
+				cursor: url.searchParams.get('cursor'),
+				limit: Number.isNaN(limit) ? undefined : limit,
+				keyName: url.searchParams.get('key')
+			});
+
+			return new Response(JSON.stringify(page), {
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			return new Response(JSON.stringify({
+				error: 'Failed to list audit log',
+				details: error instanceof Error ? error.message : 'Unknown error'
+			}), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
 	return new Response('Not Found', { status: 404 });
 }
 
@@ -594,8 +989,9 @@ export default {
 			const hostname = reqUrl.hostname;
 
 			// HANDLE SSL VALIDATION CHALLENGES FIRST - This must come before any other logic
-			if (pathName.startsWith('/.well-known/') && !pathName.includes("farcaster.json")) {
-				return await handleSSLValidationChallenge(request, env);
+			// Every other .well-known file is served from the site's content
+			if (isChallengePath(pathName)) {
+				return await handleSSLValidationChallenge(request, env, ctx);
 			}
 
 			// Handle admin requests
@@ -615,24 +1011,31 @@ export default {
 			}
 
 			// Enhanced domain resolution with dual-mode support
-			const domainResolution = await resolveSiteKey(hostname, env);
-			const siteKey = domainResolution.siteKey;
-			
-			console.log(`Domain Resolution:`, {
-				hostname,
-				siteKey,
-				domainType: domainResolution.domainType,
-				isLegacy: domainResolution.isLegacy
-			});
+			const domainResolution = await resolveSite(hostname, env, ctx);
+			if (!domainResolution) {
+				recordDomainMetric(env, hostname, 'unknown-host');
+				return domainNotConnectedResponse(hostname);
+			}
 
-			const versionCid = reqUrl.searchParams.get('orbiterVersionCid');
-			const orgId = (await env.SITE_TO_ORG.get(siteKey)) || '0';
+			if (domainResolution.isFallback) {
+				recordDomainMetric(env, hostname, 'legacy-fallback');
+			}
 
-			let [siteCid, plan, contract] = await Promise.all([
-				env.ORBITER_SITES.get(siteKey),
-				env.SITE_PLANS.get(orgId),
-				env.SITE_CONTRACT.get(siteKey),
-			]);
+			const { siteKey, cid: siteCid, plan, contract, config: siteConfig } = domainResolution;
+			const entitlements = getEntitlements(plan);
+
+			// A protected site is never served without its password, even when the plan no longer includes the feature
+			if (siteConfig.passwordProtection) {
+				const blocked = checkEntitlement(entitlements, 'passwordProtection');
+				if (blocked) {
+					return blocked;
+				}
+				if (!(await verifySitePassword(request, siteConfig.passwordProtection))) {
+					return passwordRequiredResponse(siteKey);
+				}
+			}
+
+			const versionCid = reqUrl.searchParams.get('orbiterVersionCid');
 
 			const referer = request.headers.get('referer');
 			const normalizedReferer = referer ? getNormalizedReferrer(referer) : 'direct';
@@ -659,79 +1062,150 @@ export default {
 			}).catch((error) => console.error('Analytics failed:', error));
 
 			// Check if this is an API request
-			if (pathName.startsWith('/api/') && plan !== 'free') {
-				return (await handleApiRequest(request, env, siteKey)) || new Response(null);
+			if (pathName.startsWith('/api/')) {
+				const blocked = checkEntitlement(entitlements, 'api');
+				if (blocked) {
+					return blocked;
+				}
+				return (await handleApiRequest(request, env, domainResolution, entitlements)) || new Response(null);
 			}
 
 			let redirectsArray: Redirect[] = [];
+			// `_redirects` rules without `!` only apply once the static lookup finds nothing at the path
+			let fallbackRules: CompiledRedirect[] = [];
+			const headerPolicy: SiteHeaderPolicy = { fileRules: [], configRules: [], private: !!siteConfig.passwordProtection };
+			let servePath = pathName;
+			// Set when a 4xx rule like `/* /404.html 404` serves its destination, which is then sent with the rule's status
+			let ruleStatus: number | null = null;
+			// Handle original host header properly for both domain types
+			const originalHost = request.headers.get('X-Original-Host') || reqUrl.host;
+
+			// Resolve the CID up front so preview deploys use the routing files shipped with them
+			const isUsingVersionCid = versionCid && (await pinata.gateways.containsCID(versionCid));
+			const cid = isUsingVersionCid ? versionCid : siteCid;
 
-			if (plan !== 'free') {
-				// Handle original host header properly for both domain types
-				const originalHost = request.headers.get('X-Original-Host') || reqUrl.host;
-				console.log('Checking redirects for siteKey:', siteKey);
-				const redirectsPlain = await env.REDIRECTS.get(siteKey);
-
-				if (redirectsPlain) {
-					redirectsArray = JSON.parse(redirectsPlain);
-					for (const redirect of redirectsArray) {
-						const sourcePath = redirect?.source?.startsWith('/') ? redirect?.source : `/${redirect?.source}`;
-						const currentPath = pathName;
-
-						let destinationPath = redirect?.destination;
-						if ((destinationPath && destinationPath?.startsWith('http://')) || destinationPath?.startsWith('https://')) {
-							try {
-								const destinationUrl = new URL(destinationPath);
-								destinationPath = destinationUrl.pathname + destinationUrl.search + destinationUrl.hash;
-							} catch (e) {
-								console.error('Invalid destination URL:', destinationPath);
-							}
-						} else if (!destinationPath?.startsWith('/')) {
-							destinationPath = `/${destinationPath}`;
-						}
+			// Static responses count towards the site's monthly bandwidth, /api traffic is bounded by the function limits instead
+			const overBandwidth = checkEntitlement(entitlements, 'bandwidth', { bandwidthBytes: await getBandwidthUsage(env, siteKey) });
+			if (overBandwidth) {
+				return overBandwidth;
+			}
 
-						if (currentPath === destinationPath) {
-							continue;
-						}
+			// Count a response from the site's content towards its bandwidth, by the length of the file sent
+			const meterResponse = (response: Response, length = response.headers.get('Content-Length')): Response => {
+				if (response.status !== 304) {
+					recordBandwidth(env, ctx, siteKey, parseInt(length || '0', 10));
+				}
+				return response;
+			};
 
-						if (currentPath === sourcePath || (redirect.force && currentPath.startsWith(sourcePath))) {
-							let destinationUrl = redirect.destination;
+			// Answer a matched rule with a proxied response or a redirect, internal rewrites and 4xx rules return null and are served from the CID
+			const respondToRule = async (match: RedirectMatch): Promise<Response | null> => {
+				const blocked = checkEntitlement(entitlements, 'redirects');
+				if (blocked) {
+					return blocked;
+				}
 
-							if (!destinationUrl.startsWith('http://') && !destinationUrl.startsWith('https://')) {
-								destinationUrl = `${reqUrl.protocol}//${originalHost}${destinationUrl.startsWith('/') ? '' : '/'}${destinationUrl}`;
-							}
+				if (isRewrite(match.redirect) || isStatusRewrite(match.redirect)) {
+					if (!isExternalDestination(match.destination)) {
+						return null;
+					}
 
-							return new Response(null, {
-								status: redirect?.status || 301,
-								headers: {
-									Location: destinationUrl,
-									'Cache-Control': 'public, max-age=3600',
-									'Powered-By': 'Orbiter',
-									'orb-cid': siteCid || '',
-									'orb-contract': contract || '',
-									// Add domain type header for debugging
-									'orb-domain-type': domainResolution.domainType,
-								},
-							});
-						}
+					if (!isAllowedRewriteHost(match.destination, env.REWRITE_ALLOWED_HOSTS)) {
+						console.log('Rewrite destination not allowed:', match.destination);
+						return new Response('Rewrite destination not allowed', {
+							status: 403,
+							headers: { 'Content-Type': 'text/plain' },
+						});
 					}
+
+					let proxied = await proxyRewrite(request, match.destination, {
+						'Powered-By': 'Orbiter',
+						'orb-cid': siteCid || '',
+						'orb-contract': contract || '',
+						'orb-domain-type': domainResolution.domainType,
+					});
+					if (isStatusRewrite(match.redirect)) {
+						proxied = new Response(proxied.body, { status: match.redirect.status, headers: proxied.headers });
+					}
+					return applySiteHeaders(proxied, headerPolicy, request, pathName);
+				}
+
+				let destinationUrl = match.destination;
+
+				if (!destinationUrl.startsWith('http://') && !destinationUrl.startsWith('https://')) {
+					destinationUrl = `${reqUrl.protocol}//${originalHost}${destinationUrl.startsWith('/') ? '' : '/'}${destinationUrl}`;
+				}
+
+				const redirectResponse = new Response(null, {
+					status: match.redirect?.status || 301,
+					headers: {
+						Location: destinationUrl,
+						'Cache-Control': 'public, max-age=3600',
+						'Powered-By': 'Orbiter',
+						'orb-cid': siteCid || '',
+						'orb-contract': contract || '',
+						// Add domain type header for debugging
+						'orb-domain-type': domainResolution.domainType,
+					},
+				});
+				return applySiteHeaders(redirectResponse, headerPolicy, request, pathName);
+			};
+
+			console.log('Checking redirects for siteKey:', siteKey);
+			const routingFiles = cid ? await getSiteRoutingFiles(await pinata.gateways.convert(cid), cid, ctx) : null;
+			const dashboardRules: Redirect[] = domainResolution.redirects ? JSON.parse(domainResolution.redirects) : [];
+			const fileRules = routingFiles?.redirects || [];
+
+			// Dashboard rules are listed first so they win ties with the deployed `_redirects` file
+			redirectsArray = [...dashboardRules, ...fileRules];
+
+			headerPolicy.fileRules = routingFiles?.headers || [];
+			headerPolicy.configRules = siteConfig.headers || [];
+			headerPolicy.preset = siteConfig.securityPreset;
+
+			// Rules only need the plan to include them when they apply to this request, so the rest of the site keeps working
+			if (hasCustomHeaders(headerPolicy, pathName)) {
+				const blocked = checkEntitlement(entitlements, 'customHeaders');
+				if (blocked) {
+					return blocked;
 				}
 			}
 
-			// Rest of your existing static site logic remains the same...
-			const isUsingVersionCid = versionCid && (await pinata.gateways.containsCID(versionCid));
-			const cid = isUsingVersionCid ? versionCid : siteCid;
+			if (redirectsArray.length > 0) {
+				const compiledFileRules = compileRedirects(fileRules, { forceMatchesPrefix: false });
+				fallbackRules = compiledFileRules.filter((compiled) => !compiled.redirect.force);
+
+				// Dashboard rules and forced `_redirects` rules shadow deployed files
+				const shadowingRules = [...compileRedirects(dashboardRules), ...compiledFileRules.filter((compiled) => compiled.redirect.force)];
+				const match = matchRedirect(shadowingRules, pathName, reqUrl.searchParams);
+
+				if (match) {
+					const ruleResponse = await respondToRule(match);
+					if (ruleResponse) {
+						return ruleResponse;
+					}
+
+					// Internal rewrites keep the visitor's URL and serve the destination from the site's CID
+					servePath = getRewritePath(match.destination);
+					ruleStatus = isStatusRewrite(match.redirect) ? match.redirect.status : null;
+					console.log(`Rewriting ${pathName} to ${servePath}`);
+				}
+			}
 
+			// Rest of your existing static site logic remains the same...
 			if (!cid) {
-				throw new Error(`Failed to fetch site data for siteKey: ${siteKey}`);
+				console.log(`No CID found for siteKey: ${siteKey}`);
+				recordDomainMetric(env, hostname, 'site-not-found');
+				return domainResolution.isFallback ? domainNotConnectedResponse(hostname) : siteNotFoundResponse(hostname);
 			}
 
-			let gatewayUrl = await pinata.gateways.convert(cid as string);
+			let gatewayUrl = await pinata.gateways.convert(cid);
 			let response: Response | null = null;
 
 			const refererUrl = referrer ? new URL(referrer) : null;
-			let cleanPath = pathName.startsWith('/') ? pathName.slice(1) : pathName;
+			let cleanPath = servePath.startsWith('/') ? servePath.slice(1) : servePath;
 
-			if (refererUrl && refererUrl.pathname !== '/' && pathName !== '/') {
+			if (refererUrl && refererUrl.pathname !== '/' && servePath !== '/') {
 				let refererDir = refererUrl.pathname;
 
 				if (refererDir.includes('.') && !refererDir.endsWith('/')) {
@@ -740,13 +1214,90 @@ export default {
 					refererDir = refererDir + '/';
 				}
 
-				if (!pathName.startsWith('/')) {
+				if (!servePath.startsWith('/')) {
 					const trimmedRefererDir = refererDir.startsWith('/') ? refererDir.slice(1) : refererDir;
 					cleanPath = `${trimmedRefererDir}${cleanPath}`;
 				}
 			}
 
-			if (pathName && pathName !== '/') {
+			// Processed responses are cached per CID, so a new deploy never sees the previous one's entries
+			// Entries are stored as 200s, so files served under a 4xx rule's status skip the cache
+			const canUseEdgeCache = request.method === 'GET' && !request.headers.get('Range') && !ruleStatus;
+			const edgeCacheVariant = {
+				origin: `${reqUrl.protocol}//${request.headers.get('X-Original-Host') || reqUrl.host}`,
+				version: !!isUsingVersionCid,
+				spa: !!siteConfig.spa,
+			};
+			const edgeCacheKey = getEdgeCacheKey(cid, cleanPath, edgeCacheVariant);
+
+			const respondFromEdgeCache = async (cacheKey: Request): Promise<Response | null> => {
+				const cached = await matchEdgeCache(cacheKey);
+				if (!cached) return null;
+
+				const cachedResponse = matchesIfNoneMatch(request.headers.get('If-None-Match'), cached.headers.get('ETag')) ? notModified(cached) : cached;
+				return applySiteHeaders(meterResponse(cachedResponse), headerPolicy, request, pathName);
+			};
+
+			// Serve `.br` / `.gz` siblings shipped by the build when the client accepts them, each encoding cached under its own key
+			const compressibleType = servePath !== '/' ? getCompressibleType(cleanPath) : null;
+			if (compressibleType && canUseEdgeCache) {
+				const acceptEncoding = request.headers.get('Accept-Encoding');
+				const knownEncoding = await getKnownEncoding(cid, cleanPath, acceptEncoding);
+				if (knownEncoding) {
+					const cachedResponse = await respondFromEdgeCache(getEdgeCacheKey(cid, cleanPath, { ...edgeCacheVariant, encoding: knownEncoding }));
+					if (cachedResponse) {
+						return cachedResponse;
+					}
+				}
+
+				const precompressed = await fetchPrecompressed(gatewayUrl, cid, cleanPath, acceptEncoding, ctx);
+
+				if (precompressed) {
+					const encodedHeaders: Record<string, string> = {
+						'Content-Type': compressibleType,
+						'Content-Encoding': precompressed.encoding,
+						Vary: 'Accept-Encoding',
+						'Access-Control-Allow-Origin': '*',
+						'Cache-Control': 'public, max-age=3600',
+						// Each encoding is a different representation, so it needs its own strong ETag
+						ETag: await getContentEtag(cid, cleanPath, precompressed.encoding),
+						'Powered-By': 'Orbiter',
+						'orb-cid': cid || '',
+						'orb-contract': contract || '',
+						'orb-domain-type': domainResolution.domainType,
+					};
+					const encodedLength = precompressed.response.headers.get('Content-Length');
+					if (encodedLength) {
+						encodedHeaders['Content-Length'] = encodedLength;
+					}
+
+					let encodedResponse = storeInEdgeCache(
+						ctx,
+						getEdgeCacheKey(cid, cleanPath, { ...edgeCacheVariant, encoding: precompressed.encoding }),
+						new Response(precompressed.response.body, {
+							status: 200,
+							headers: encodedHeaders,
+							encodeBody: 'manual',
+						}),
+						'manual'
+					);
+
+					if (matchesIfNoneMatch(request.headers.get('If-None-Match'), encodedHeaders.ETag)) {
+						encodedResponse = notModified(encodedResponse);
+					}
+
+					return applySiteHeaders(meterResponse(encodedResponse), headerPolicy, request, pathName);
+				}
+			}
+
+			if (canUseEdgeCache) {
+				const cachedResponse = await respondFromEdgeCache(edgeCacheKey);
+				if (cachedResponse) {
+					return cachedResponse;
+				}
+			}
+
+			if (servePath && servePath !== '/') {
 				const rangeHeader = request.headers.get('Range');
 
 				if (!cleanPath.includes('.')) {
@@ -758,10 +1309,22 @@ export default {
 						response = await fetch(htmlPath);
 					}
 				} else {
-					const isMediaFile = cleanPath.match(/\.(mp4|webm|ogg|mov|avi|mkv|mp3|wav|flac|aac|m4a)$/i);
-
-					if (isMediaFile && rangeHeader) {
-						return await handleRangeRequest(gatewayUrl, cleanPath, rangeHeader, cid as string, contract || '');
+					// HTML gets rewritten, so byte offsets into the stored file would not line up with what we send
+					if (rangeHeader && request.method === 'GET' && !ruleStatus && !/\.html?$/i.test(cleanPath)) {
+						const rangeResponse = await handleRangeRequest(gatewayUrl, cleanPath, rangeHeader, request.headers.get('If-Range'), {
+							'Access-Control-Allow-Origin': '*',
+							'Cache-Control': 'public, max-age=3600',
+							ETag: await getContentEtag(cid, cleanPath),
+							'Powered-By': 'Orbiter',
+							'orb-cid': cid || '',
+							'orb-contract': contract || '',
+							'orb-domain-type': domainResolution.domainType,
+						});
+						// A missing file may still be answered by a `_redirects` rule below
+						if (rangeResponse.status !== 404 || fallbackRules.length === 0) {
+							return applySiteHeaders(meterResponse(rangeResponse), headerPolicy, request, pathName);
+						}
+						response = rangeResponse;
 					} else {
 						response = await fetch(`${gatewayUrl}/${cleanPath}`);
 					}
@@ -770,11 +1333,63 @@ export default {
 				response = await fetch(`${gatewayUrl}/index.html`);
 			}
 
+			if (!response?.ok && fallbackRules.length > 0) {
+				const match = matchRedirect(fallbackRules, pathName, reqUrl.searchParams);
+
+				if (match) {
+					const ruleResponse = await respondToRule(match);
+					if (ruleResponse) {
+						return ruleResponse;
+					}
+
+					servePath = getRewritePath(match.destination);
+					ruleStatus = isStatusRewrite(match.redirect) ? match.redirect.status : null;
+					cleanPath = servePath.slice(1);
+					console.log(`Rewriting missing ${pathName} to ${servePath}`);
+					response = await fetchSitePath(gatewayUrl, cleanPath);
+				}
+			}
+
+			const isExtensionless = !cleanPath.split('/').pop()?.includes('.');
+			const isWellKnown = isWellKnownPath(servePath);
+			let isSpaShell = false;
+
+			if (!response?.ok && siteConfig.spa && isExtensionless && !isWellKnown) {
+				// Client-routed apps resolve deep links themselves, so hand them the app shell
+				const shellResponse = await fetch(`${gatewayUrl}/index.html`);
+				if (shellResponse.ok) {
+					response = shellResponse;
+					isSpaShell = true;
+				}
+			}
+
 			if (!response?.ok) {
+				// Clients probing .well-known files expect a plain 404, not a page
+				if (isWellKnown) {
+					const notFound = new Response('Not Found', {
+						status: 404,
+						headers: {
+							'Content-Type': 'text/plain',
+							'Access-Control-Allow-Origin': '*',
+							'Cache-Control': 'public, max-age=3600',
+							'Powered-By': 'Orbiter',
+							'orb-cid': cid || '',
+							'orb-contract': contract || '',
+							'orb-domain-type': domainResolution.domainType,
+						},
+					});
+					return applySiteHeaders(notFound, headerPolicy, request, pathName);
+				}
+
 				if (redirectsArray.length > 0) {
 					const custom404 = redirectsArray.find((redirect) => redirect.source === '404');
 
 					if (custom404) {
+						const blocked = checkEntitlement(entitlements, 'redirects');
+						if (blocked) {
+							return blocked;
+						}
+
 						console.log('Using custom 404 page');
 						const notFoundPath = custom404.destination.startsWith('/') ? custom404.destination.slice(1) : custom404.destination;
 
@@ -782,7 +1397,7 @@ export default {
 
 						if (notFoundResponse.ok) {
 							const contentType = notFoundResponse.headers.get('Content-Type') || 'text/html';
-							return new Response(notFoundResponse.body, {
+							const notFound = new Response(notFoundResponse.body, {
 								status: 404,
 								headers: {
 									'Content-Type': contentType,
@@ -793,10 +1408,27 @@ export default {
 									'orb-domain-type': domainResolution.domainType,
 								},
 							});
+							return applySiteHeaders(notFound, headerPolicy, request, pathName);
 						}
 					}
 				}
 
+				// SPA sites only fall back to the shell for routes, missing assets are real 404s
+				if (siteConfig.spa) {
+					const notFound = new Response('Not Found', {
+						status: 404,
+						headers: {
+							'Content-Type': 'text/plain',
+							'Cache-Control': 'public, max-age=3600',
+							'Powered-By': 'Orbiter',
+							'orb-cid': cid || '',
+							'orb-contract': contract || '',
+							'orb-domain-type': domainResolution.domainType,
+						},
+					});
+					return applySiteHeaders(notFound, headerPolicy, request, pathName);
+				}
+
 				console.log('All failed final check');
 				gatewayUrl = gatewayUrl.split('/index.html')[0];
 				response = await fetch(gatewayUrl);
@@ -806,11 +1438,14 @@ export default {
 			if (cleanPath.endsWith('.wasm')) {
 				contentType = 'application/wasm';
 			}
+			if (isWellKnown) {
+				contentType = getWellKnownContentType(servePath) || contentType;
+			}
 			let body: any = response.body;
 
 			if (contentType?.includes('text/html')) {
-				const text = await response.text();
-				let currentPathContext = pathName;
+				// The app shell lives at the root, so its relative assets resolve from there
+				let currentPathContext = isSpaShell ? '/' : servePath;
 
 				if (!currentPathContext.endsWith('/') && !currentPathContext.includes('.')) {
 					currentPathContext += '/';
@@ -826,33 +1461,13 @@ export default {
 				const originalHost = request.headers.get('X-Original-Host') || reqUrl.host;
 				const baseUrl = `${reqUrl.protocol}//${originalHost}${currentPathContext}`;
 
-				let modifiedHtml = text;
-				if (!modifiedHtml.includes('<base ')) {
-					if (modifiedHtml.includes('<head>')) {
-						modifiedHtml = modifiedHtml.replace('<head>', `<head>\n<base href="${baseUrl}">`);
-					} else {
-						modifiedHtml = `<base href="${baseUrl}">\n${modifiedHtml}`;
-					}
-				}
-
-				modifiedHtml = modifiedHtml.replace(/(src|href)=("|')(?!http|\/\/|data:|#|mailto:)([^"']*)("|')/g, (match, attr, quote, path) => {
-					let assetPath;
-
-					if (path.startsWith('/')) {
-						assetPath = path;
-					} else {
-						assetPath = currentPathContext + path;
-					}
-
-					const versionParam = isUsingVersionCid ? `?orbiterVersionCid=${versionCid}` : '';
-					return `${attr}=${quote}${assetPath}${versionParam}${quote}`;
-				});
-
-				body = modifiedHtml;
+				body = rewriteHtml(response, {
+					baseUrl,
+					pathContext: currentPathContext,
+					versionCid: isUsingVersionCid ? versionCid : undefined,
+				}).body;
 			}
 
-			const isMediaFile = cleanPath.match(/\.(mp4|webm|ogg|mov|avi|mkv|mp3|wav|flac|aac|m4a)$/i);
-
 			const responseHeaders: Record<string, string> = {
 				'Content-Type': contentType || 'text/plain',
 				'Access-Control-Allow-Origin': '*',
@@ -863,15 +1478,36 @@ export default {
 				'orb-domain-type': domainResolution.domainType,
 			};
 
-			if (isMediaFile) {
+			if (!isExtensionless && !contentType?.includes('text/html')) {
 				responseHeaders['Accept-Ranges'] = 'bytes';
 			}
 
-			return new Response(body, {
-				status: response.status,
-				statusText: response.statusText,
+			if (compressibleType) {
+				responseHeaders['Vary'] = 'Accept-Encoding';
+			}
+
+			// Rewritten HTML also depends on the transform and the variant it was rendered for
+			const transform = contentType?.includes('text/html') ? `html-v${HTML_TRANSFORM_VERSION}:${edgeCacheKey.url}` : undefined;
+			responseHeaders['ETag'] = await getContentEtag(cid, cleanPath, transform);
+
+			let siteResponse = new Response(body, {
+				status: ruleStatus || response.status,
+				statusText: ruleStatus ? undefined : response.statusText,
 				headers: responseHeaders,
 			});
+
+			if (canUseEdgeCache && response.ok && !ruleStatus) {
+				siteResponse = storeInEdgeCache(ctx, edgeCacheKey, siteResponse);
+			} else {
+				siteResponse.headers.set('orb-cache', 'BYPASS');
+			}
+
+			if (response.ok && !ruleStatus && matchesIfNoneMatch(request.headers.get('If-None-Match'), responseHeaders['ETag'])) {
+				siteResponse = notModified(siteResponse);
+			}
+
+			// Rewritten HTML is streamed without a length, so count the file we fetched
+			return applySiteHeaders(meterResponse(siteResponse, response.headers.get('Content-Length')), headerPolicy, request, pathName);
 		} catch (error) {
 			console.error('Error:', error);
 			return new Response(`Error: ${error}`, {
@@ -880,4 +1516,9 @@ export default {
 			});
 		}
 	},
+
+	// Runs every minute and invokes the customer functions whose cron schedules are due
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		ctx.waitUntil(runScheduledFunctions(env, new Date(controller.scheduledTime)));
+	},
 } satisfies ExportedHandler<Env>;
\ No newline at end of file
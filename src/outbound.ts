@@ -0,0 +1,35 @@
+import { isAllowedHostUrl } from './utils/hosts';
+
+// Outbound worker for the functions dispatch namespace, deployed on its own with wrangler.outbound.toml:
+//   npm run deploy:outbound
+// Every fetch a customer function makes goes through here, with the parameters from `getDispatchOptions` as env.
+interface OutboundEnv {
+	siteKey: string;
+	plan: string | null;
+	allowedHosts: string[];
+	restricted: boolean;
+}
+
+export default {
+	async fetch(request, env): Promise<Response> {
+		if (!env.restricted || isAllowedHostUrl(request.url, env.allowedHosts || [])) {
+			return fetch(request);
+		}
+
+		const { hostname } = new URL(request.url);
+		console.log(`Blocked egress from ${env.siteKey} to ${hostname}`);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Egress not allowed',
+				message: `${hostname} is not in this site's allowed egress hosts`,
+				limit: 'egress',
+				plan: env.plan,
+			}),
+			{
+				status: 403,
+				headers: { 'Content-Type': 'application/json' },
+			}
+		);
+	},
+} satisfies ExportedHandler<OutboundEnv>;
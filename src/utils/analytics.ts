@@ -178,7 +178,7 @@ export async function trackPageView(
 			}),
 			headers: {
 				'Content-Type': 'application/json',
-				'X-Orbiter-Analytics-Token': env.ORBITER_ADMIN_KEY,
+				'X-Orbiter-Analytics-Token': env.ORBITER_ANALYTICS_TOKEN || env.ORBITER_ADMIN_KEY,
 			},
 		});
 	} catch (error) {
@@ -0,0 +1,128 @@
+import { Env } from '..';
+
+export interface AuditEntry {
+	id: string;
+	timestamp: string;
+	keyName: string | null;
+	method: string;
+	path: string;
+	status: number;
+	ip: string | null;
+	// The request body, truncated to fit in KV metadata, so we can see which domains were touched
+	body?: string;
+}
+
+export interface AuditLogPage {
+	entries: AuditEntry[];
+	cursor: string | null;
+	complete: boolean;
+}
+
+const MAX_BODY_LENGTH = 2048;
+// KV rejects metadata larger than this once serialized
+const MAX_METADATA_BYTES = 1024;
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 1000;
+// Largest millisecond timestamp we'll see, subtracting from it makes KV's ascending key order newest first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+// Failed admin logins logged per IP and window, anything past that is only counted
+const FAILED_AUTH_LIMIT = 10;
+const FAILED_AUTH_WINDOW_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+function getAuditKey(now: number, id: string): string {
+	return `${(MAX_TIMESTAMP - now).toString().padStart(13, '0')}:${id}`;
+}
+
+function byteLength(value: string): number {
+	return encoder.encode(value).byteLength;
+}
+
+// Shorten the body until the whole entry fits in KV metadata, so listing returns it without reading every value
+function fitInMetadata(entry: AuditEntry): AuditEntry {
+	if (!entry.body) return entry;
+
+	// The serialized entry with an empty body already includes the body's quotes
+	const available = MAX_METADATA_BYTES - byteLength(JSON.stringify({ ...entry, body: '' })) + 2;
+	if (byteLength(JSON.stringify(entry.body)) <= available) return entry;
+
+	let body = entry.body;
+	while (body && byteLength(JSON.stringify(`${body}…`)) > available) {
+		body = body.slice(0, -16);
+	}
+
+	return { ...entry, body: body ? `${body}…` : undefined };
+}
+
+// Read the body of an authenticated mutating request before it's handled, the handler consumes the original
+export async function readAuditBody(request: Request): Promise<string | undefined> {
+	if (!request.body) return undefined;
+
+	try {
+		const body = await request.clone().text();
+		return body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}…` : body;
+	} catch (error) {
+		console.error('Failed to read admin request body for audit log:', error);
+		return undefined;
+	}
+}
+
+// Append an entry to the audit log, entries are never updated or deleted by the worker
+export async function recordAuditEntry(env: Env, entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> {
+	const now = Date.now();
+	const record = fitInMetadata({
+		id: crypto.randomUUID(),
+		timestamp: new Date(now).toISOString(),
+		...entry,
+	});
+
+	try {
+		await env.ADMIN_AUDIT_LOG.put(getAuditKey(now, record.id), JSON.stringify(record), { metadata: record });
+	} catch (error) {
+		console.error('Failed to write audit log entry:', error, { ...record, body: undefined });
+	}
+}
+
+// Unauthenticated callers could otherwise fill the audit log, so failed logins are only logged a few times per IP and window
+export async function shouldRecordFailedAuth(env: Env, ip: string | null): Promise<boolean> {
+	try {
+		const bucketId = Math.floor(Date.now() / (FAILED_AUTH_WINDOW_SECONDS * 1000));
+		const key = `admin-auth:${bucketId}:${ip || 'unknown'}`;
+
+		const count = parseInt((await env.RATE_LIMIT.get(key)) || '0', 10);
+		if (count >= FAILED_AUTH_LIMIT) return false;
+
+		await env.RATE_LIMIT.put(key, (count + 1).toString(), { expirationTtl: FAILED_AUTH_WINDOW_SECONDS });
+		return true;
+	} catch (error) {
+		console.error('Failed auth rate limit check failed:', error);
+		return false;
+	}
+}
+
+// List audit entries newest first, optionally only those made with one key
+export async function listAuditEntries(
+	env: Env,
+	options: { cursor?: string | null; limit?: number; keyName?: string | null }
+): Promise<AuditLogPage> {
+	const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT);
+	const result = await env.ADMIN_AUDIT_LOG.list<AuditEntry>({
+		cursor: options.cursor || undefined,
+		limit,
+	});
+
+	const entries = await Promise.all(
+		result.keys.map(async ({ name, metadata }) => {
+			if (metadata) return metadata;
+			const value = await env.ADMIN_AUDIT_LOG.get(name);
+			return value ? (JSON.parse(value) as AuditEntry) : null;
+		})
+	);
+
+	return {
+		entries: entries.filter((entry): entry is AuditEntry => !!entry && (!options.keyName || entry.keyName === options.keyName)),
+		cursor: result.list_complete ? null : result.cursor,
+		complete: result.list_complete,
+	};
+}
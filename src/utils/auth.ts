@@ -0,0 +1,132 @@
+import { Env } from '..';
+
+// `*` grants everything and is what the legacy ORBITER_ADMIN_KEY gets
+// `audit:read` is separate from `read` because audit entries include the bodies of every admin mutation
+export type AdminScope = 'read' | 'audit:read' | 'domains:write' | 'cache:write' | 'functions:write' | '*';
+
+export interface AdminKey {
+	name: string;
+	key: string;
+	scopes: AdminScope[];
+	// When set, requests made with this key must also carry a valid HMAC signature
+	signingSecret?: string;
+}
+
+export type AdminAuthResult = { ok: true; key: AdminKey } | { ok: false; status: 401 | 403; error: string; keyName?: string };
+
+const LEGACY_KEY_NAME = 'legacy';
+// Signed requests older or newer than this are rejected to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+// Parse ORBITER_ADMIN_KEYS, a JSON array of `{ name, key, scopes, signingSecret? }`, plus the legacy single key
+export function getAdminKeys(env: Env): AdminKey[] {
+	const keys: AdminKey[] = [];
+
+	if (env.ORBITER_ADMIN_KEYS) {
+		try {
+			const parsed = JSON.parse(env.ORBITER_ADMIN_KEYS);
+			if (Array.isArray(parsed)) {
+				for (const entry of parsed) {
+					if (typeof entry?.name !== 'string' || typeof entry?.key !== 'string' || !entry.key || !Array.isArray(entry.scopes)) {
+						console.error('Skipping malformed admin key entry');
+						continue;
+					}
+					keys.push({
+						name: entry.name,
+						key: entry.key,
+						scopes: entry.scopes,
+						signingSecret: typeof entry.signingSecret === 'string' ? entry.signingSecret : undefined,
+					});
+				}
+			}
+		} catch (error) {
+			console.error('Failed to parse ORBITER_ADMIN_KEYS:', error);
+		}
+	}
+
+	if (env.ORBITER_ADMIN_KEY) {
+		keys.push({ name: LEGACY_KEY_NAME, key: env.ORBITER_ADMIN_KEY, scopes: ['*'] });
+	}
+
+	return keys;
+}
+
+// Compare two secrets without leaking how much of them matched through timing
+// Hashing first gives both sides the same length, which timingSafeEqual requires.
+export async function timingSafeEqualStrings(a: string, b: string): Promise<boolean> {
+	const [aHash, bHash] = await Promise.all([
+		crypto.subtle.digest('SHA-256', encoder.encode(a)),
+		crypto.subtle.digest('SHA-256', encoder.encode(b)),
+	]);
+	return crypto.subtle.timingSafeEqual(aHash, bHash);
+}
+
+// Work out which scope a route needs: the audit log needs `audit:read`, other reads `read`, cache purges `cache:write`,
+// function maintenance like the cron index `functions:write`, and everything else, including domain metadata backfills, `domains:write`
+export function getRequiredScope(path: string, method: string): AdminScope {
+	if (path === '/admin/audit-log') return 'audit:read';
+	if (method === 'GET' || method === 'HEAD') return 'read';
+	if (path.startsWith('/admin/cache/')) return 'cache:write';
+	if (path.startsWith('/admin/functions/')) return 'functions:write';
+	return 'domains:write';
+}
+
+export function hasScope(key: AdminKey, scope: AdminScope): boolean {
+	return key.scopes.includes('*') || key.scopes.includes(scope);
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+	const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Signature is hex HMAC-SHA256 over `${timestamp}.${method}.${path and query}.${body}`,
+// sent as X-Orbiter-Signature alongside the unix timestamp in X-Orbiter-Timestamp
+export async function verifyRequestSignature(request: Request, secret: string): Promise<boolean> {
+	const timestamp = request.headers.get('X-Orbiter-Timestamp');
+	const signature = request.headers.get('X-Orbiter-Signature');
+	if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+
+	if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+	const url = new URL(request.url);
+	const body = request.body ? await request.clone().text() : '';
+	const expected = await hmacHex(secret, `${timestamp}.${request.method}.${url.pathname}${url.search}.${body}`);
+
+	return timingSafeEqualStrings(expected, signature.toLowerCase());
+}
+
+// Authenticate an admin request from its bearer token and check the key may call this route
+export async function authenticateAdminRequest(request: Request, env: Env): Promise<AdminAuthResult> {
+	const authHeader = request.headers.get('Authorization');
+	const token = authHeader?.split(' ')[1];
+	if (!token) {
+		return { ok: false, status: 401, error: 'Unauthorized' };
+	}
+
+	// Check every key so the time taken doesn't reveal which one matched
+	let matched: AdminKey | null = null;
+	for (const key of getAdminKeys(env)) {
+		if ((await timingSafeEqualStrings(token, key.key)) && !matched) {
+			matched = key;
+		}
+	}
+
+	if (!matched) {
+		return { ok: false, status: 401, error: 'Unauthorized' };
+	}
+
+	if (matched.signingSecret && !(await verifyRequestSignature(request, matched.signingSecret))) {
+		return { ok: false, status: 401, error: 'Invalid request signature', keyName: matched.name };
+	}
+
+	const url = new URL(request.url);
+	if (!hasScope(matched, getRequiredScope(url.pathname, request.method))) {
+		return { ok: false, status: 403, error: 'Forbidden', keyName: matched.name };
+	}
+
+	return { ok: true, key: matched };
+}
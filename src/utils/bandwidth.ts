@@ -0,0 +1,67 @@
+import { Env } from '..';
+
+// Usage counters live in RATE_LIMIT next to the other counters, keyed by site and UTC month
+const USAGE_TTL_SECONDS = 40 * 24 * 60 * 60;
+// Bytes are added up in the isolate and written to KV in batches, a KV write per response would cost more than the response
+const FLUSH_BYTES = 10 * 1024 * 1024;
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const USAGE_CACHE_TTL_MS = 60 * 1000;
+
+interface PendingUsage {
+	bytes: number;
+	since: number;
+}
+
+const pendingUsage = new Map<string, PendingUsage>();
+const usageCache = new Map<string, { bytes: number; expires: number }>();
+
+export function getBandwidthKey(siteKey: string, now = new Date()): string {
+	return `bandwidth:${siteKey}:${now.toISOString().slice(0, 7)}`;
+}
+
+// Month to date bytes served for a site, including what this isolate hasn't written yet
+// Isolates write their counts with a read and a put, so concurrent flushes can drop some bytes and the cap is a soft one.
+export async function getBandwidthUsage(env: Env, siteKey: string): Promise<number> {
+	const key = getBandwidthKey(siteKey);
+	const pending = pendingUsage.get(key)?.bytes || 0;
+
+	const cached = usageCache.get(key);
+	if (cached && cached.expires > Date.now()) return cached.bytes + pending;
+
+	try {
+		const bytes = parseInt((await env.RATE_LIMIT.get(key)) || '0', 10);
+		usageCache.set(key, { bytes, expires: Date.now() + USAGE_CACHE_TTL_MS });
+		return bytes + pending;
+	} catch (error) {
+		console.error('Failed to read bandwidth usage:', error);
+		return pending;
+	}
+}
+
+async function flushUsage(env: Env, key: string, bytes: number): Promise<void> {
+	try {
+		const stored = parseInt((await env.RATE_LIMIT.get(key)) || '0', 10);
+		await env.RATE_LIMIT.put(key, (stored + bytes).toString(), { expirationTtl: USAGE_TTL_SECONDS });
+		usageCache.set(key, { bytes: stored + bytes, expires: Date.now() + USAGE_CACHE_TTL_MS });
+	} catch (error) {
+		console.error('Failed to write bandwidth usage:', error);
+	}
+}
+
+// Count the bytes of a response towards the site's monthly bandwidth, from its Content-Length
+export function recordBandwidth(env: Env, ctx: ExecutionContext, siteKey: string, bytes: number): void {
+	if (!Number.isFinite(bytes) || bytes <= 0) return;
+
+	const key = getBandwidthKey(siteKey);
+	const now = Date.now();
+	const pending = pendingUsage.get(key) || { bytes: 0, since: now };
+	pending.bytes += bytes;
+
+	if (pending.bytes < FLUSH_BYTES && now - pending.since < FLUSH_INTERVAL_MS) {
+		pendingUsage.set(key, pending);
+		return;
+	}
+
+	pendingUsage.delete(key);
+	ctx.waitUntil(flushUsage(env, key, pending.bytes));
+}
@@ -0,0 +1,85 @@
+const EDGE_CACHE_ORIGIN = 'https://cache.orbiter.internal';
+// Content under a CID never changes, so entries only go stale when the variant inputs do
+const EDGE_CACHE_TTL = 60 * 60 * 24 * 30;
+const CLIENT_CACHE_CONTROL_HEADER = 'orb-client-cache-control';
+// Pre-compressed entries are stored without Content-Encoding, the cache would otherwise encode the bytes again
+const CONTENT_ENCODING_HEADER = 'orb-content-encoding';
+
+// Build the Cache API key for a processed response
+// The variant holds everything besides the CID and path that changes the output, like the host used for `<base>`
+export function getEdgeCacheKey(cid: string, cleanPath: string, variant: Record<string, string | boolean>): Request {
+	const url = new URL(`${EDGE_CACHE_ORIGIN}/${cid}/${cleanPath}`);
+	for (const name of Object.keys(variant).sort()) {
+		url.searchParams.set(name, String(variant[name]));
+	}
+
+	return new Request(url.toString());
+}
+
+export async function matchEdgeCache(cacheKey: Request): Promise<Response | null> {
+	try {
+		const cached = await caches.default.match(cacheKey);
+		if (!cached) return null;
+
+		// Restore the Cache-Control we send to browsers, the stored copy carries the edge TTL
+		const headers = new Headers(cached.headers);
+		headers.set('Cache-Control', headers.get(CLIENT_CACHE_CONTROL_HEADER) || 'public, max-age=3600');
+		headers.delete(CLIENT_CACHE_CONTROL_HEADER);
+		headers.set('orb-cache', 'HIT');
+
+		const encoding = headers.get(CONTENT_ENCODING_HEADER);
+		if (encoding) {
+			headers.set('Content-Encoding', encoding);
+			headers.delete(CONTENT_ENCODING_HEADER);
+		}
+
+		return new Response(cached.body, {
+			status: cached.status,
+			statusText: cached.statusText,
+			headers,
+			encodeBody: encoding ? 'manual' : 'automatic',
+		});
+	} catch (error) {
+		console.error('Edge cache lookup failed:', error);
+		return null;
+	}
+}
+
+// Store a copy of the response in the edge cache and return the response to send to the client
+// Pre-compressed bodies need `encodeBody: 'manual'` again, the runtime would otherwise compress them a second time.
+export function storeInEdgeCache(
+	ctx: ExecutionContext,
+	cacheKey: Request,
+	response: Response,
+	encodeBody: 'automatic' | 'manual' = 'automatic'
+): Response {
+	const headers = new Headers(response.headers);
+	headers.set('orb-cache', 'MISS');
+
+	const outgoing = new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+		encodeBody,
+	});
+	const copy = outgoing.clone();
+
+	const cacheHeaders = new Headers(headers);
+	cacheHeaders.set(CLIENT_CACHE_CONTROL_HEADER, headers.get('Cache-Control') || 'public, max-age=3600');
+	cacheHeaders.set('Cache-Control', `public, max-age=${EDGE_CACHE_TTL}`);
+	cacheHeaders.delete('orb-cache');
+
+	const encoding = headers.get('Content-Encoding');
+	if (encodeBody === 'manual' && encoding) {
+		cacheHeaders.set(CONTENT_ENCODING_HEADER, encoding);
+		cacheHeaders.delete('Content-Encoding');
+	}
+
+	ctx.waitUntil(
+		caches.default
+			.put(cacheKey, new Response(copy.body, { status: copy.status, statusText: copy.statusText, headers: cacheHeaders }))
+			.catch((error) => console.error('Edge cache store failed:', error))
+	);
+
+	return outgoing;
+}
@@ -0,0 +1,118 @@
+import { Env } from '..';
+import { CustomHostname, getCustomHostnameStatus } from './cloudflare';
+
+// `acme` for SSL certificate validation, `ownership` for the custom hostname ownership check
+export type ChallengeKind = 'acme' | 'ownership';
+
+interface CachedChallenge {
+	body: string;
+	fetchedAt: number;
+}
+
+const CHALLENGE_CACHE_ORIGIN = 'https://challenges.orbiter.internal';
+// Validators retry the same URL many times during issuance, a minute is plenty to absorb that
+const FRESH_TTL_MS = 60 * 1000;
+// How long a copy stays around to answer with while the Cloudflare API is failing
+const STALE_TTL_SECONDS = 24 * 60 * 60;
+const MAX_ISOLATE_ENTRIES = 500;
+
+const isolateChallenges = new Map<string, CachedChallenge>();
+const inFlight = new Map<string, Promise<string | null>>();
+
+function getCacheKey(key: string): Request {
+	return new Request(`${CHALLENGE_CACHE_ORIGIN}/${key}`);
+}
+
+function isFresh(challenge: CachedChallenge): boolean {
+	return Date.now() - challenge.fetchedAt < FRESH_TTL_MS;
+}
+
+// Pull the body for a challenge token out of the custom hostname, or null if Cloudflare isn't expecting it
+function findChallengeBody(customHostname: CustomHostname, kind: ChallengeKind, token: string): string | null {
+	if (kind === 'acme') {
+		const validationRecord = customHostname.ssl?.validation_records?.find((record) => record.http_url && record.http_url.includes(token));
+		return validationRecord?.http_body || null;
+	}
+
+	const ownership = customHostname.ownership_verification_http;
+	return ownership && ownership.http_url.includes(token) ? ownership.http_body : null;
+}
+
+async function readCachedChallenge(key: string): Promise<CachedChallenge | null> {
+	const inIsolate = isolateChallenges.get(key);
+	if (inIsolate && Date.now() - inIsolate.fetchedAt < STALE_TTL_SECONDS * 1000) return inIsolate;
+
+	try {
+		const cached = await caches.default.match(getCacheKey(key));
+		if (cached) {
+			const challenge = (await cached.json()) as CachedChallenge;
+			isolateChallenges.set(key, challenge);
+			return challenge;
+		}
+	} catch (error) {
+		console.error('Failed to read cached challenge:', error);
+	}
+
+	return null;
+}
+
+function storeChallenge(ctx: ExecutionContext, key: string, challenge: CachedChallenge): void {
+	isolateChallenges.delete(key);
+	if (isolateChallenges.size >= MAX_ISOLATE_ENTRIES) {
+		const oldest = isolateChallenges.keys().next().value;
+		if (oldest !== undefined) isolateChallenges.delete(oldest);
+	}
+	isolateChallenges.set(key, challenge);
+
+	ctx.waitUntil(
+		caches.default
+			.put(
+				getCacheKey(key),
+				new Response(JSON.stringify(challenge), {
+					headers: {
+						'Content-Type': 'application/json',
+						'Cache-Control': `public, max-age=${STALE_TTL_SECONDS}`,
+					},
+				})
+			)
+			.catch((error) => console.error('Failed to cache challenge:', error))
+	);
+}
+
+// Get the body to answer a challenge with, from cache when it was fetched recently
+// Concurrent requests for the same token share one API call, and when the API fails we fall back
+// to the last copy we stored. Returns null when Cloudflare has no matching challenge.
+export async function getChallengeBody(
+	hostname: string,
+	kind: ChallengeKind,
+	token: string,
+	customHostnameId: string,
+	env: Env,
+	ctx: ExecutionContext
+): Promise<string | null> {
+	const key = `${kind}/${encodeURIComponent(hostname.toLowerCase())}/${encodeURIComponent(token)}`;
+
+	const cached = await readCachedChallenge(key);
+	if (cached && isFresh(cached)) return cached.body;
+
+	let pending = inFlight.get(key);
+	if (!pending) {
+		pending = (async () => {
+			const customHostname = await getCustomHostnameStatus(customHostnameId, env);
+			const body = findChallengeBody(customHostname, kind, token);
+			if (body) storeChallenge(ctx, key, { body, fetchedAt: Date.now() });
+			return body;
+		})().finally(() => inFlight.delete(key));
+		inFlight.set(key, pending);
+	}
+
+	try {
+		return await pending;
+	} catch (error) {
+		if (cached) {
+			console.error(`Cloudflare API failed, serving stored ${kind} challenge for ${hostname}:`, error);
+			return cached.body;
+		}
+		throw error;
+	}
+}
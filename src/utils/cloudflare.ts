@@ -0,0 +1,181 @@
+import { Env } from '..';
+
+const DEFAULT_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+export interface CloudflareApiMessage {
+	code: number;
+	message: string;
+}
+
+// Raised for network failures, non-2xx responses and `success: false` bodies from the Cloudflare API
+export class CloudflareApiError extends Error {
+	// HTTP status from the API, 0 when the request never got a response
+	status: number;
+	errors: CloudflareApiMessage[];
+
+	constructor(message: string, status: number, errors: CloudflareApiMessage[] = []) {
+		super(message);
+		this.name = 'CloudflareApiError';
+		this.status = status;
+		this.errors = errors;
+	}
+}
+
+// The parts of a custom hostname object from the API that we use
+export interface CustomHostname {
+	id: string;
+	hostname: string;
+	status: string;
+	created_at?: string;
+	verification_errors?: string[];
+	ownership_verification?: { type: string; name: string; value: string };
+	ownership_verification_http?: { http_url: string; http_body: string };
+	ssl?: {
+		status: string;
+		method?: string;
+		type?: string;
+		certificate_authority?: string;
+		validation_records?: {
+			txt_name?: string;
+			txt_value?: string;
+			http_url?: string;
+			http_body?: string;
+			cname?: string;
+			cname_target?: string;
+			emails?: string[];
+		}[];
+		validation_errors?: { message: string }[];
+		certificates?: { id: string; issuer?: string; issued_on?: string; expires_on?: string }[];
+	};
+}
+
+export interface ValidationRecord {
+	type: 'txt' | 'http' | 'cname' | 'email';
+	// TXT or CNAME record name, or the URL the HTTP token is fetched from
+	name: string;
+	value: string;
+}
+
+// Shape returned by the status endpoint, independent of how the API nests things
+export interface CustomHostnameStatus {
+	id: string;
+	hostname: string;
+	status: string;
+	createdAt: string | null;
+	ownership: {
+		verified: boolean;
+		records: ValidationRecord[];
+		errors: string[];
+	};
+	ssl: {
+		status: string | null;
+		method: string | null;
+		certificateAuthority: string | null;
+		issuedAt: string | null;
+		expiresAt: string | null;
+		records: ValidationRecord[];
+		errors: string[];
+	};
+}
+
+// CLOUDFLARE_API_BASE_URL points the worker at a mock API when testing locally
+function getApiBaseUrl(env: Env): string {
+	return (env.CLOUDFLARE_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+async function cloudflareRequest<T>(env: Env, path: string): Promise<T> {
+	let response: Response;
+	try {
+		response = await fetch(`${getApiBaseUrl(env)}${path}`, {
+			headers: {
+				'Authorization': `Bearer ${env.CLOUDFLARE_API_TOKEN}`,
+			},
+		});
+	} catch (error) {
+		throw new CloudflareApiError(`Cloudflare API unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`, 0);
+	}
+
+	let data: { success?: boolean; errors?: CloudflareApiMessage[]; result?: T } | null = null;
+	try {
+		data = await response.json();
+	} catch (error) {
+		// Handled below, proxies in front of the API sometimes answer with HTML
+	}
+
+	if (!response.ok || !data?.success) {
+		const errors = data?.errors || [];
+		const message = errors.map((error) => error.message).join(', ') || `Cloudflare API responded with ${response.status}`;
+		throw new CloudflareApiError(message, response.status, errors);
+	}
+
+	return data.result as T;
+}
+
+// Helper function to get custom hostname status
+export async function getCustomHostnameStatus(customHostnameId: string, env: Env): Promise<CustomHostname> {
+	return cloudflareRequest<CustomHostname>(env, `/zones/${env.CLOUDFLARE_ZONE_ID}/custom_hostnames/${encodeURIComponent(customHostnameId)}`);
+}
+
+// Look a custom hostname up by name, for mappings created before we stored the hostname ID
+export async function findCustomHostname(hostname: string, env: Env): Promise<CustomHostname | null> {
+	const results = await cloudflareRequest<CustomHostname[]>(
+		env,
+		`/zones/${env.CLOUDFLARE_ZONE_ID}/custom_hostnames?hostname=${encodeURIComponent(hostname)}`
+	);
+	return results?.find((result) => result.hostname === hostname) || null;
+}
+
+export function normalizeCustomHostname(customHostname: CustomHostname): CustomHostnameStatus {
+	const ownershipRecords: ValidationRecord[] = [];
+	if (customHostname.ownership_verification) {
+		ownershipRecords.push({
+			type: 'txt',
+			name: customHostname.ownership_verification.name,
+			value: customHostname.ownership_verification.value,
+		});
+	}
+	if (customHostname.ownership_verification_http) {
+		ownershipRecords.push({
+			type: 'http',
+			name: customHostname.ownership_verification_http.http_url,
+			value: customHostname.ownership_verification_http.http_body,
+		});
+	}
+
+	const sslRecords: ValidationRecord[] = [];
+	for (const record of customHostname.ssl?.validation_records || []) {
+		if (record.txt_name && record.txt_value) sslRecords.push({ type: 'txt', name: record.txt_name, value: record.txt_value });
+		if (record.http_url && record.http_body) sslRecords.push({ type: 'http', name: record.http_url, value: record.http_body });
+		if (record.cname && record.cname_target) sslRecords.push({ type: 'cname', name: record.cname, value: record.cname_target });
+		for (const email of record.emails || []) sslRecords.push({ type: 'email', name: customHostname.hostname, value: email });
+	}
+
+	// Certificates are renewed ahead of expiry, so the one expiring last is what visitors get
+	const certificate = (customHostname.ssl?.certificates || [])
+		.filter((cert) => cert.expires_on)
+		.sort((a, b) => Date.parse(b.expires_on!) - Date.parse(a.expires_on!))[0];
+
+	const isActive = customHostname.status === 'active';
+
+	return {
+		id: customHostname.id,
+		hostname: customHostname.hostname,
+		status: customHostname.status,
+		createdAt: customHostname.created_at || null,
+		ownership: {
+			verified: isActive,
+			// Once the hostname is active the verification records are stale and no longer needed
+			records: isActive ? [] : ownershipRecords,
+			errors: customHostname.verification_errors || [],
+		},
+		ssl: {
+			status: customHostname.ssl?.status || null,
+			method: customHostname.ssl?.method || null,
+			certificateAuthority: customHostname.ssl?.certificate_authority || null,
+			issuedAt: certificate?.issued_on || null,
+			expiresAt: certificate?.expires_on || null,
+			records: customHostname.ssl?.status === 'active' ? [] : sslRecords,
+			errors: (customHostname.ssl?.validation_errors || []).map((error) => error.message),
+		},
+	};
+}
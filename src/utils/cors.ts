@@ -0,0 +1,115 @@
+import { isAllowedOrigin } from './headers';
+
+// The `cors` field of a site's FUNCTIONS record, `false` leaves CORS entirely to the customer worker
+export interface FunctionsCorsConfig {
+	// `*`, exact origins, or wildcard subdomains like `https://*.example.com`
+	origins?: string[];
+	methods?: string[];
+	// Request headers preflights may ask for, `*` allows whatever the browser asks for
+	allowedHeaders?: string[];
+	exposedHeaders?: string[];
+	credentials?: boolean;
+	// Seconds browsers may cache a preflight
+	maxAge?: number;
+}
+
+export interface CorsPolicy {
+	origins: string[];
+	methods: string[];
+	allowedHeaders: string[];
+	exposedHeaders: string[];
+	credentials: boolean;
+	maxAge: number | null;
+}
+
+// What every API function got before CORS was configurable
+const DEFAULT_POLICY: CorsPolicy = {
+	origins: ['*'],
+	methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+	allowedHeaders: ['Content-Type', 'Authorization'],
+	exposedHeaders: [],
+	credentials: false,
+	maxAge: null,
+};
+
+const MAX_AGE_LIMIT = 86400;
+
+function stringList(value: unknown, fallback: string[]): string[] {
+	return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map((item) => item.trim()) : fallback;
+}
+
+// Resolve the policy for a site, or null when the customer worker handles CORS itself
+export function getCorsPolicy(config: FunctionsCorsConfig | false | undefined): CorsPolicy | null {
+	if (config === false) return null;
+	if (!config || typeof config !== 'object') return DEFAULT_POLICY;
+
+	const maxAge = typeof config.maxAge === 'number' && config.maxAge >= 0 ? Math.min(Math.floor(config.maxAge), MAX_AGE_LIMIT) : null;
+	const origins = stringList(config.origins, DEFAULT_POLICY.origins);
+
+	// Credentials would let any site make authenticated calls, so they need an explicit list of origins
+	const credentials = config.credentials === true && !origins.includes('*');
+	if (config.credentials === true && !credentials) {
+		console.warn('Ignoring CORS credentials for a policy that allows every origin');
+	}
+
+	return {
+		origins,
+		methods: stringList(config.methods, DEFAULT_POLICY.methods).map((method) => method.toUpperCase()),
+		allowedHeaders: stringList(config.allowedHeaders, DEFAULT_POLICY.allowedHeaders),
+		exposedHeaders: stringList(config.exposedHeaders, DEFAULT_POLICY.exposedHeaders),
+		credentials,
+		maxAge,
+	};
+}
+
+// Headers for any API response, including the preflight
+// Browsers reject `*` on credentialed requests, so then the allowed origin is echoed back instead.
+// Policies with credentials never contain `*`, getCorsPolicy drops credentials in that case.
+export function getCorsHeaders(policy: CorsPolicy, request: Request): Record<string, string> {
+	const origin = request.headers.get('Origin');
+	const headers: Record<string, string> = {};
+
+	if (policy.origins.includes('*')) {
+		headers['Access-Control-Allow-Origin'] = '*';
+	} else if (origin && isAllowedOrigin(origin, policy.origins)) {
+		headers['Access-Control-Allow-Origin'] = origin;
+		headers['Vary'] = 'Origin';
+	} else {
+		// Still vary so a cache doesn't hand one origin's response to another
+		headers['Vary'] = 'Origin';
+	}
+
+	if (policy.credentials && headers['Access-Control-Allow-Origin']) {
+		headers['Access-Control-Allow-Credentials'] = 'true';
+	}
+
+	if (policy.exposedHeaders.length > 0) {
+		headers['Access-Control-Expose-Headers'] = policy.exposedHeaders.join(', ');
+	}
+
+	return headers;
+}
+
+// Answer an OPTIONS request at the edge so preflights never invoke the customer worker
+// `routeMethods` narrows the advertised methods to what the matched route accepts.
+export function preflightResponse(policy: CorsPolicy, request: Request, routeMethods?: string[]): Response {
+	const headers = getCorsHeaders(policy, request);
+	const methods = routeMethods ? policy.methods.filter((method) => routeMethods.includes(method)) : policy.methods;
+
+	headers['Access-Control-Allow-Methods'] = [...new Set([...methods, 'OPTIONS'])].join(', ');
+
+	const requestedHeaders = request.headers.get('Access-Control-Request-Headers');
+	if (policy.allowedHeaders.includes('*') && requestedHeaders) {
+		headers['Access-Control-Allow-Headers'] = requestedHeaders;
+		headers['Vary'] = headers['Vary'] ? `${headers['Vary']}, Access-Control-Request-Headers` : 'Access-Control-Request-Headers';
+	} else {
+		const allowedHeaders = policy.allowedHeaders.filter((header) => header !== '*');
+		if (allowedHeaders.length > 0) headers['Access-Control-Allow-Headers'] = allowedHeaders.join(', ');
+	}
+
+	if (policy.maxAge !== null) {
+		headers['Access-Control-Max-Age'] = policy.maxAge.toString();
+	}
+
+	return new Response(null, { status: 204, headers: { ...headers, 'Powered-By': 'Orbiter API' } });
+}
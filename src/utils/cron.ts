@@ -0,0 +1,89 @@
+// Minimal five field cron matcher (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Supports `*`, numbers, ranges `a-b`, steps `*/n` and `a-b/n`, and comma separated lists.
+
+interface CronField {
+	min: number;
+	max: number;
+}
+
+const FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{ min: 1, max: 12 },
+	// 7 is accepted as Sunday too
+	{ min: 0, max: 7 },
+];
+
+export interface ParsedCron {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// Cron matches on day of month OR day of week when both are restricted
+	dayOfMonthRestricted: boolean;
+	dayOfWeekRestricted: boolean;
+}
+
+function parseField(value: string, { min, max }: CronField): Set<number> {
+	const result = new Set<number>();
+
+	for (const part of value.split(',')) {
+		const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+		if (!match) throw new Error(`Invalid cron field: ${value}`);
+
+		const step = match[4] ? parseInt(match[4], 10) : 1;
+		let start = min;
+		let end = max;
+
+		if (match[1] !== '*') {
+			start = parseInt(match[2], 10);
+			// `5/15` means every 15 starting at 5
+			end = match[3] ? parseInt(match[3], 10) : match[4] ? max : start;
+		}
+
+		if (step < 1 || start < min || end > max || start > end) {
+			throw new Error(`Invalid cron field: ${value}`);
+		}
+
+		for (let i = start; i <= end; i += step) {
+			result.add(i);
+		}
+	}
+
+	return result;
+}
+
+// Throws on expressions we can't parse, so definitions can be rejected up front
+export function parseCron(expression: string): ParsedCron {
+	const parts = expression.trim().split(/\s+/);
+	if (parts.length !== 5) {
+		throw new Error(`Cron expressions need 5 fields, got ${parts.length}: ${expression}`);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+	if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		dayOfMonthRestricted: parts[2] !== '*',
+		dayOfWeekRestricted: parts[4] !== '*',
+	};
+}
+
+export function matchesCron(cron: ParsedCron, date: Date): boolean {
+	if (!cron.minutes.has(date.getUTCMinutes()) || !cron.hours.has(date.getUTCHours()) || !cron.months.has(date.getUTCMonth() + 1)) {
+		return false;
+	}
+
+	const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+	if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+	return dayOfMonth && dayOfWeek;
+}
@@ -0,0 +1,257 @@
+import { Env } from '..';
+
+export interface CustomDomainMapping {
+	subdomain: string;
+	created: string;
+	cloudflare_hostname_id?: string;
+	worker_route_id?: string;
+	type: 'cloudflare-saas'; // New domains use Cloudflare for SaaS
+}
+
+export interface LegacyDomainMapping {
+	subdomain: string;
+	created: string;
+	type: 'digital-ocean'; // Legacy domains through Digital Ocean
+}
+
+export interface DomainResolution {
+	siteKey: string;
+	domainType: 'native' | 'cloudflare-saas' | 'digital-ocean';
+	isLegacy: boolean;
+	// Set when the hostname wasn't in either domain namespace and is used as the site key directly
+	isFallback?: boolean;
+}
+
+export type DomainMetricOutcome = 'legacy-fallback' | 'unknown-host' | 'site-not-found';
+
+// Check the hostname against the comma separated allow-list of legacy domains that still rely on the fallback
+export function isLegacyFallbackAllowed(hostname: string, env: Env): boolean {
+	if (env.STRICT_DOMAIN_RESOLUTION !== 'true') return true;
+
+	return (env.LEGACY_FALLBACK_DOMAINS || '')
+		.split(',')
+		.map((domain) => domain.trim().toLowerCase())
+		.includes(hostname.toLowerCase());
+}
+
+// Count fallback and unknown host hits so we can tell when the legacy fallback can be removed
+export function recordDomainMetric(env: Env, hostname: string, outcome: DomainMetricOutcome): void {
+	console.log(`Domain resolution ${outcome}: ${hostname}`);
+
+	try {
+		env.DOMAIN_METRICS?.writeDataPoint({
+			blobs: [hostname, outcome],
+			doubles: [1],
+			indexes: [outcome],
+		});
+	} catch (error) {
+		console.error('Failed to record domain metric:', error);
+	}
+}
+
+// Enhanced domain resolution with dual-mode support
+// Returns null for hostnames that aren't connected to any site when strict resolution is on
+export async function resolveSiteKey(hostname: string, env: Env): Promise<DomainResolution | null> {
+	console.log(`Resolving hostname: ${hostname}`);
+
+	// 1. Check if it's a native *.orbiter.website domain
+	if (hostname.endsWith('orbiter.website')) {
+		const siteKey = hostname.split('.')[0];
+		return {
+			siteKey,
+			domainType: 'native',
+			isLegacy: false
+		};
+	}
+
+	// 2. Check if it's a new Cloudflare for SaaS custom domain
+	const customDomainMapping = await env.CUSTOM_DOMAINS.get(hostname);
+	if (customDomainMapping) {
+		const mapping: CustomDomainMapping = JSON.parse(customDomainMapping);
+		console.log(`Cloudflare for SaaS domain ${hostname} maps to subdomain: ${mapping.subdomain}`);
+		return {
+			siteKey: mapping.subdomain,
+			domainType: 'cloudflare-saas',
+			isLegacy: false
+		};
+	}
+
+	// 3. Check if it's a legacy Digital Ocean domain
+	const legacyDomainMapping = await env.LEGACY_DOMAINS.get(hostname);
+	if (legacyDomainMapping) {
+		const mapping: LegacyDomainMapping = JSON.parse(legacyDomainMapping);
+		console.log(`Legacy Digital Ocean domain ${hostname} maps to subdomain: ${mapping.subdomain}`);
+		return {
+			siteKey: mapping.subdomain,
+			domainType: 'digital-ocean',
+			isLegacy: true
+		};
+	}
+
+	// 4. Fallback: treat unknown domains as potential legacy domains
+	// This handles existing customers whose domains weren't in LEGACY_DOMAINS yet
+	// In strict mode only allow-listed domains get this treatment
+	if (!isLegacyFallbackAllowed(hostname, env)) {
+		console.log(`Unknown domain ${hostname}, not connected to a site`);
+		return null;
+	}
+
+	console.log(`Unknown domain ${hostname}, treating as potential legacy domain`);
+	return {
+		siteKey: hostname,
+		domainType: 'digital-ocean',
+		isLegacy: true,
+		isFallback: true
+	};
+}
+
+export type DomainNamespace = 'custom' | 'legacy';
+
+export interface DomainListEntry {
+	domain: string;
+	namespace: DomainNamespace;
+	mapping: CustomDomainMapping | LegacyDomainMapping;
+}
+
+export interface DomainListPage {
+	domains: DomainListEntry[];
+	cursor: string | null;
+	complete: boolean;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+// Mappings stored before they carried metadata cost a read each, listings give up past this many
+const MAX_FALLBACK_READS = 100;
+const FALLBACK_BATCH_SIZE = 25;
+const BACKFILL_PAGE_LIMIT = 100;
+
+// Thrown when a listing would need too many individual reads, backfilling the metadata fixes it for good
+export class MetadataBackfillRequiredError extends Error {
+	namespace: DomainNamespace;
+
+	constructor(namespace: DomainNamespace) {
+		super(`Too many ${namespace} domain mappings have no metadata, run POST /admin/domains/backfill-metadata first`);
+		this.name = 'MetadataBackfillRequiredError';
+		this.namespace = namespace;
+	}
+}
+
+export interface MetadataBackfillPage {
+	updated: number;
+	cursor: string | null;
+	complete: boolean;
+}
+
+export function getDomainNamespace(env: Env, namespace: DomainNamespace): KVNamespace {
+	return namespace === 'custom' ? env.CUSTOM_DOMAINS : env.LEGACY_DOMAINS;
+}
+
+// Read mappings one by one for keys listed without metadata, a batch at a time
+async function readMappings(kv: KVNamespace, names: string[]): Promise<Map<string, string>> {
+	const values = new Map<string, string>();
+
+	for (let i = 0; i < names.length; i += FALLBACK_BATCH_SIZE) {
+		const batch = names.slice(i, i + FALLBACK_BATCH_SIZE);
+		const results = await Promise.all(batch.map((name) => kv.get(name)));
+		results.forEach((value, position) => {
+			if (value) values.set(batch[position], value);
+		});
+	}
+
+	return values;
+}
+
+// List one page of domain mappings
+// Mappings are written with themselves as KV metadata; older entries without it are read individually,
+// up to `fallbackReads.remaining` of them, which a caller walking several pages shares between them.
+// The subdomain filter applies per page, so a filtered page can hold fewer entries than the limit while more remain.
+export async function listDomainMappings(
+	env: Env,
+	namespace: DomainNamespace,
+	options: { cursor?: string | null; limit?: number; subdomain?: string | null; fallbackReads?: { remaining: number } } = {}
+): Promise<DomainListPage> {
+	const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+	const kv = getDomainNamespace(env, namespace);
+	const fallbackReads = options.fallbackReads || { remaining: MAX_FALLBACK_READS };
+
+	const result = await kv.list<CustomDomainMapping | LegacyDomainMapping>({
+		limit,
+		cursor: options.cursor || undefined,
+	});
+
+	const missing = result.keys.filter((key) => !key.metadata).map((key) => key.name);
+	if (missing.length > fallbackReads.remaining) {
+		throw new MetadataBackfillRequiredError(namespace);
+	}
+	fallbackReads.remaining -= missing.length;
+
+	const values = await readMappings(kv, missing);
+	const domains: DomainListEntry[] = [];
+
+	for (const key of result.keys) {
+		const value = values.get(key.name);
+		const mapping = key.metadata || (value ? (JSON.parse(value) as CustomDomainMapping | LegacyDomainMapping) : null);
+		if (mapping && (!options.subdomain || mapping.subdomain === options.subdomain)) {
+			domains.push({ domain: key.name, namespace, mapping });
+		}
+	}
+
+	return {
+		domains,
+		cursor: result.list_complete ? null : result.cursor,
+		complete: result.list_complete,
+	};
+}
+
+// Walk every page of a namespace, for reverse lookups and exports
+export async function listAllDomainMappings(env: Env, namespace: DomainNamespace, subdomain?: string | null): Promise<DomainListEntry[]> {
+	const domains: DomainListEntry[] = [];
+	const fallbackReads = { remaining: MAX_FALLBACK_READS };
+	let cursor: string | null = null;
+
+	do {
+		const page: DomainListPage = await listDomainMappings(env, namespace, { cursor, limit: MAX_LIST_LIMIT, subdomain, fallbackReads });
+		domains.push(...page.domains);
+		cursor = page.cursor;
+	} while (cursor);
+
+	return domains;
+}
+
+// Rewrite one page of mappings that predate metadata so listing never has to read them again
+export async function backfillDomainMetadata(env: Env, namespace: DomainNamespace, cursor?: string | null): Promise<MetadataBackfillPage> {
+	const kv = getDomainNamespace(env, namespace);
+	const result = await kv.list({ limit: BACKFILL_PAGE_LIMIT, cursor: cursor || undefined });
+
+	const values = await readMappings(kv, result.keys.filter((key) => !key.metadata).map((key) => key.name));
+
+	const entries = [...values.entries()];
+	for (let i = 0; i < entries.length; i += FALLBACK_BATCH_SIZE) {
+		const batch = entries.slice(i, i + FALLBACK_BATCH_SIZE);
+		await Promise.all(batch.map(([name, value]) => kv.put(name, value, { metadata: JSON.parse(value) })));
+	}
+
+	return {
+		updated: entries.length,
+		cursor: result.list_complete ? null : result.cursor,
+		complete: result.list_complete,
+	};
+}
+
+function escapeCsv(value: string | undefined): string {
+	const text = value ?? '';
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function domainMappingsToCsv(entries: DomainListEntry[]): string {
+	const header = ['domain', 'namespace', 'type', 'subdomain', 'created', 'cloudflare_hostname_id', 'worker_route_id'];
+	const rows = entries.map(({ domain, namespace, mapping }) => {
+		const custom = mapping.type === 'cloudflare-saas' ? mapping : null;
+		return [domain, namespace, mapping.type, mapping.subdomain, mapping.created, custom?.cloudflare_hostname_id, custom?.worker_route_id]
+			.map(escapeCsv)
+			.join(',');
+	});
+
+	return [header.join(','), ...rows].join('\n') + '\n';
+}
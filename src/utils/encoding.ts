@@ -0,0 +1,155 @@
+export type ContentEncoding = 'br' | 'gzip';
+
+// File extensions build tools use for pre-compressed siblings, in our order of preference
+const ENCODING_EXTENSIONS: Record<ContentEncoding, string> = {
+	br: 'br',
+	gzip: 'gz',
+};
+
+// Only text based assets are worth negotiating, binary formats are already compressed
+const COMPRESSIBLE_TYPES: Record<string, string> = {
+	js: 'application/javascript',
+	mjs: 'application/javascript',
+	css: 'text/css',
+	json: 'application/json',
+	map: 'application/json',
+	svg: 'image/svg+xml',
+	wasm: 'application/wasm',
+	txt: 'text/plain',
+	xml: 'application/xml',
+	webmanifest: 'application/manifest+json',
+};
+
+const VARIANT_CACHE_ORIGIN = 'https://encodings.orbiter.internal';
+const MAX_ISOLATE_ENTRIES = 2000;
+
+type VariantRecord = Partial<Record<ContentEncoding, boolean>>;
+
+// Which pre-compressed siblings exist never changes for a CID, so we remember what we found
+const isolateVariants = new Map<string, VariantRecord>();
+
+export function getCompressibleType(cleanPath: string): string | null {
+	const extension = cleanPath.split('.').pop()?.toLowerCase();
+	return extension ? COMPRESSIBLE_TYPES[extension] || null : null;
+}
+
+// Parse Accept-Encoding into the encodings we can serve, most preferred first
+export function getAcceptedEncodings(acceptEncoding: string | null): ContentEncoding[] {
+	if (!acceptEncoding) return [];
+
+	const weights = new Map<string, number>();
+	for (const part of acceptEncoding.split(',')) {
+		const [name, ...params] = part.trim().toLowerCase().split(';');
+		const qParam = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+		const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+		weights.set(name, Number.isNaN(q) ? 0 : q);
+	}
+
+	const wildcard = weights.get('*');
+	return (Object.keys(ENCODING_EXTENSIONS) as ContentEncoding[])
+		.map((encoding, index) => ({ encoding, index, q: weights.get(encoding) ?? wildcard ?? 0 }))
+		.filter(({ q }) => q > 0)
+		.sort((a, b) => b.q - a.q || a.index - b.index)
+		.map(({ encoding }) => encoding);
+}
+
+function getVariantKeys(cid: string, cleanPath: string): { key: string; cacheKey: Request } {
+	const key = `${cid}/${cleanPath}`;
+	return { key, cacheKey: new Request(`${VARIANT_CACHE_ORIGIN}/${key}`) };
+}
+
+async function getVariantRecord(cacheKey: Request, key: string): Promise<VariantRecord> {
+	const known = isolateVariants.get(key);
+	if (known) return known;
+
+	try {
+		const cached = await caches.default.match(cacheKey);
+		if (cached) {
+			const record = (await cached.json()) as VariantRecord;
+			isolateVariants.set(key, record);
+			return record;
+		}
+	} catch (error) {
+		console.error('Failed to read encoding variants:', error);
+	}
+
+	return {};
+}
+
+function saveVariantRecord(ctx: ExecutionContext, cacheKey: Request, key: string, record: VariantRecord): void {
+	if (isolateVariants.size >= MAX_ISOLATE_ENTRIES) {
+		const oldest = isolateVariants.keys().next().value;
+		if (oldest !== undefined) isolateVariants.delete(oldest);
+	}
+	isolateVariants.set(key, record);
+
+	ctx.waitUntil(
+		caches.default
+			.put(
+				cacheKey,
+				new Response(JSON.stringify(record), {
+					headers: {
+						'Content-Type': 'application/json',
+						'Cache-Control': 'public, max-age=31536000, immutable',
+					},
+				})
+			)
+			.catch((error) => console.error('Failed to store encoding variants:', error))
+	);
+}
+
+// The encoding fetchPrecompressed would serve, when we already know the sibling exists, so the caller can check its cache first
+export async function getKnownEncoding(cid: string, cleanPath: string, acceptEncoding: string | null): Promise<ContentEncoding | null> {
+	const accepted = getAcceptedEncodings(acceptEncoding);
+	if (accepted.length === 0) return null;
+
+	const { key, cacheKey } = getVariantKeys(cid, cleanPath);
+	const record = await getVariantRecord(cacheKey, key);
+	const encoding = accepted.find((candidate) => record[candidate] !== false);
+	return encoding && record[encoding] ? encoding : null;
+}
+
+// Look for `.br` or `.gz` siblings of a file in the CID and return the best one the client accepts
+// Returns null when the client doesn't accept any of them or none were deployed, so the caller serves the original.
+// The body is sent as-is, so the response must be built with `encodeBody: 'manual'`.
+export async function fetchPrecompressed(
+	gatewayUrl: string,
+	cid: string,
+	cleanPath: string,
+	acceptEncoding: string | null,
+	ctx: ExecutionContext
+): Promise<{ response: Response; encoding: ContentEncoding } | null> {
+	const accepted = getAcceptedEncodings(acceptEncoding);
+	if (accepted.length === 0) return null;
+
+	const { key, cacheKey } = getVariantKeys(cid, cleanPath);
+	const record = { ...(await getVariantRecord(cacheKey, key)) };
+	let changed = false;
+
+	try {
+		for (const encoding of accepted) {
+			if (record[encoding] === false) continue;
+
+			const response = await fetch(`${gatewayUrl}/${cleanPath}.${ENCODING_EXTENSIONS[encoding]}`, {
+				// Keep the runtime from decoding the sibling, we want to send its bytes untouched
+				headers: { 'Accept-Encoding': 'identity' },
+			});
+
+			// Only a 404 means the sibling doesn't exist, other failures are retried on the next request
+			if (record[encoding] === undefined && (response.ok || response.status === 404)) {
+				record[encoding] = response.ok;
+				changed = true;
+			}
+
+			if (response.ok) {
+				return { response, encoding };
+			}
+
+			await response.body?.cancel();
+		}
+	} finally {
+		if (changed) saveVariantRecord(ctx, cacheKey, key, record);
+	}
+
+	return null;
+}
@@ -0,0 +1,116 @@
+// `bandwidth` is allowed until the site has used up its monthly cap
+export type Feature = 'api' | 'redirects' | 'customHeaders' | 'passwordProtection' | 'bandwidth';
+
+// Month to date usage, needed to check metered features
+export interface PlanUsage {
+	bandwidthBytes: number;
+}
+
+export interface PlanEntitlements {
+	// The SITE_PLANS value these were resolved from, null when the org has no plan stored
+	plan: string | null;
+	api: boolean;
+	redirects: boolean;
+	customHeaders: boolean;
+	passwordProtection: boolean;
+	// Monthly bandwidth per site in GB, null for no cap
+	bandwidthCapGb: number | null;
+	// CPU time each function invocation may use
+	functionCpuMs: number;
+	// Outbound fetches each function invocation may make
+	functionSubrequests: number;
+	// Whether functions may only reach the hosts listed in their egress config
+	functionEgressRestricted: boolean;
+}
+
+type PlanFeatures = Omit<PlanEntitlements, 'plan'>;
+
+const PLAN_FEATURES: Record<string, PlanFeatures> = {
+	free: {
+		api: false,
+		redirects: false,
+		customHeaders: false,
+		passwordProtection: false,
+		bandwidthCapGb: 10,
+		functionCpuMs: 10,
+		functionSubrequests: 5,
+		functionEgressRestricted: true,
+	},
+	launch: {
+		api: true,
+		redirects: true,
+		customHeaders: true,
+		passwordProtection: false,
+		bandwidthCapGb: 100,
+		functionCpuMs: 50,
+		functionSubrequests: 50,
+		functionEgressRestricted: true,
+	},
+	orbit: {
+		api: true,
+		redirects: true,
+		customHeaders: true,
+		passwordProtection: true,
+		bandwidthCapGb: null,
+		functionCpuMs: 200,
+		functionSubrequests: 1000,
+		functionEgressRestricted: false,
+	},
+};
+
+// Anything that isn't `free` has always been treated as paid, so unknown and missing plans keep getting launch features
+const DEFAULT_PLAN = 'launch';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+const FEATURE_NAMES: Record<Exclude<Feature, 'bandwidth'>, string> = {
+	api: 'API functions',
+	redirects: 'redirects',
+	customHeaders: 'custom headers',
+	passwordProtection: 'password protection',
+};
+
+export function getEntitlements(plan: string | null): PlanEntitlements {
+	const features = (plan && PLAN_FEATURES[plan.toLowerCase()]) || PLAN_FEATURES[DEFAULT_PLAN];
+	return { plan, ...features };
+}
+
+function isAllowed(entitlements: PlanEntitlements, feature: Feature, usage?: PlanUsage): boolean {
+	if (feature === 'bandwidth') {
+		return entitlements.bandwidthCapGb === null || (usage?.bandwidthBytes || 0) < entitlements.bandwidthCapGb * BYTES_PER_GB;
+	}
+	return entitlements[feature];
+}
+
+function getUpgradeMessage(feature: Feature, entitlements: PlanEntitlements): string {
+	const plan = entitlements.plan || DEFAULT_PLAN;
+	if (feature === 'bandwidth') {
+		return `This site has used the ${entitlements.bandwidthCapGb} GB of monthly bandwidth included in the ${plan} plan, upgrade for more`;
+	}
+	return `The ${plan} plan doesn't include ${FEATURE_NAMES[feature]}, upgrade to use it`;
+}
+
+// Every plan check goes through here: returns the upgrade_required response to send, or null when the plan allows it
+export function checkEntitlement(entitlements: PlanEntitlements, feature: Feature, usage?: PlanUsage): Response | null {
+	if (isAllowed(entitlements, feature, usage)) return null;
+
+	return new Response(
+		JSON.stringify({
+			error: {
+				code: 'upgrade_required',
+				message: getUpgradeMessage(feature, entitlements),
+				feature,
+				plan: entitlements.plan,
+			},
+		}),
+		{
+			status: 402,
+			headers: {
+				'Content-Type': 'application/json',
+				'Access-Control-Allow-Origin': '*',
+				'Cache-Control': 'no-store',
+				'Powered-By': 'Orbiter',
+			},
+		}
+	);
+}
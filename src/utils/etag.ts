@@ -0,0 +1,47 @@
+// Bump whenever the HTML rewriting changes its output, so browsers don't keep documents from the old transform
+export const HTML_TRANSFORM_VERSION = 3;
+
+// Build a strong ETag from the immutable CID and the path inside it
+// Transformed responses pass a transform string so their tag changes with the rewriting, not just the content
+export async function getContentEtag(cid: string, cleanPath: string, transform?: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const data = encoder.encode(`${cid}/${cleanPath}${transform ? `#${transform}` : ''}`);
+	const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+	const hashArray = Array.from(new Uint8Array(hashBuffer));
+	const hashHex = hashArray
+		.slice(0, 16)
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+	return `"${hashHex}"`;
+}
+
+// If-None-Match uses the weak comparison, so `W/` prefixes are ignored
+export function matchesIfNoneMatch(ifNoneMatch: string | null, etag: string | null): boolean {
+	if (!ifNoneMatch || !etag) return false;
+	if (ifNoneMatch.trim() === '*') return true;
+
+	const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+	return ifNoneMatch.split(',').some((tag) => opaque(tag) === opaque(etag));
+}
+
+// If-Range only accepts strong validators, an HTTP date never matches since we don't send Last-Modified for CIDs
+export function matchesIfRange(ifRange: string | null, etag: string): boolean {
+	if (!ifRange) return true;
+	const tag = ifRange.trim();
+	return !tag.startsWith('W/') && tag === etag;
+}
+
+// Answer a conditional request with a 304 that keeps the caching headers of the full response
+export function notModified(response: Response): Response {
+	const headers = new Headers(response.headers);
+	headers.delete('Content-Length');
+	headers.delete('Content-Type');
+	headers.delete('Content-Encoding');
+
+	response.body?.cancel().catch(() => {});
+
+	return new Response(null, {
+		status: 304,
+		headers,
+	});
+}
@@ -0,0 +1,185 @@
+import { FunctionsCorsConfig } from './cors';
+import { PlanEntitlements } from './entitlements';
+
+// One entry of a site's route table, sending requests under `prefix` to a deployed script
+export interface FunctionRoute {
+	// Request path the route covers, e.g. `/api/auth`, matched on whole segments
+	prefix: string;
+	// Methods the script accepts, all of them when omitted
+	methods?: string[];
+	script: string;
+}
+
+// A scheduled invocation, sent to the script as a POST to `path`
+export interface FunctionCron {
+	// Five field cron expression, evaluated in UTC
+	schedule: string;
+	// Defaults to the record's `deployedName`
+	script?: string;
+	// Defaults to `/__scheduled`
+	path?: string;
+	timeoutMs?: number;
+}
+
+// The `worker:${siteKey}` record in FUNCTIONS
+export interface FunctionsRecord {
+	// Sites with a single function only have this, it serves all of /api
+	deployedName?: string;
+	routes?: FunctionRoute[];
+	// CORS policy for every function of the site, `false` to let the functions handle CORS themselves
+	cors?: FunctionsCorsConfig | false;
+	// Hosts the functions may fetch from when the plan restricts egress, e.g. `api.stripe.com` or `*.example.com`
+	egress?: { allowedHosts?: string[] };
+	// Secret the X-Orbiter-* context headers are signed with, see utils/requestContext
+	contextSecret?: string;
+	crons?: FunctionCron[];
+}
+
+export type FunctionRouteMatch =
+	| { type: 'match'; route: FunctionRoute }
+	| { type: 'not_found' }
+	| { type: 'method_not_allowed'; allow: string[] };
+
+const API_PREFIX = '/api';
+
+function normalizePrefix(prefix: string): string {
+	const withSlash = prefix.startsWith('/') ? prefix : `/${prefix}`;
+	return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+	return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+// Build the route table for a record, longest prefix first
+// A `deployedName` becomes a catch-all for /api so single function sites keep working unchanged.
+export function getFunctionRoutes(record: FunctionsRecord): FunctionRoute[] {
+	const routes: FunctionRoute[] = [];
+
+	for (const route of Array.isArray(record.routes) ? record.routes : []) {
+		if (typeof route?.prefix !== 'string' || typeof route?.script !== 'string' || !route.script) {
+			console.error('Skipping malformed function route:', route);
+			continue;
+		}
+
+		const prefix = normalizePrefix(route.prefix);
+		if (!matchesPrefix(prefix, API_PREFIX)) {
+			console.error('Skipping function route outside /api:', route.prefix);
+			continue;
+		}
+
+		routes.push({
+			prefix,
+			script: route.script,
+			methods: Array.isArray(route.methods) ? route.methods.map((method) => method.toUpperCase()) : undefined,
+		});
+	}
+
+	if (record.deployedName) {
+		routes.push({ prefix: API_PREFIX, script: record.deployedName });
+	}
+
+	return routes.sort((a, b) => b.prefix.length - a.prefix.length);
+}
+
+// Find the script for a request, reporting 405 when the path is routed but not for this method
+// OPTIONS always matches so preflights reach whatever handles CORS for the route.
+export function matchFunctionRoute(routes: FunctionRoute[], pathname: string, method: string): FunctionRouteMatch {
+	const requestMethod = method.toUpperCase();
+	const allow = new Set<string>();
+	let pathMatched = false;
+
+	for (const route of routes) {
+		if (!matchesPrefix(pathname, route.prefix)) continue;
+		pathMatched = true;
+
+		if (!route.methods || requestMethod === 'OPTIONS' || route.methods.includes(requestMethod)) {
+			return { type: 'match', route };
+		}
+
+		route.methods.forEach((allowed) => allow.add(allowed));
+	}
+
+	return pathMatched ? { type: 'method_not_allowed', allow: [...allow] } : { type: 'not_found' };
+}
+
+export type FunctionLimit = 'cpu' | 'subrequests' | 'memory';
+
+// Passed to the outbound worker of the dispatch namespace, which decides whether a function's fetch may leave
+export interface OutboundParams {
+	siteKey: string;
+	plan: string | null;
+	// Empty with `restricted` set means the function can't reach anything
+	allowedHosts: string[];
+	restricted: boolean;
+}
+
+export interface DispatchOptions {
+	// Absent until plan limits are enforced, the script then runs with the limits it was deployed with
+	limits?: { cpuMs: number; subRequests: number };
+	outbound: OutboundParams;
+}
+
+// Limits for a dispatched function come from the plan, egress hosts from the site's own record
+// Memory isn't configurable per script, every function gets the platform's 128 MB.
+// Plan limits and egress restrictions only apply with `enforceLimits`, see FUNCTION_LIMITS_ENFORCED in the README.
+export function getDispatchOptions(
+	siteKey: string,
+	record: FunctionsRecord,
+	entitlements: PlanEntitlements,
+	enforceLimits: boolean
+): DispatchOptions {
+	const allowedHosts = Array.isArray(record.egress?.allowedHosts)
+		? record.egress.allowedHosts.filter((host): host is string => typeof host === 'string').map((host) => host.trim().toLowerCase())
+		: [];
+
+	return {
+		limits: enforceLimits ? { cpuMs: entitlements.functionCpuMs, subRequests: entitlements.functionSubrequests } : undefined,
+		outbound: {
+			siteKey,
+			plan: entitlements.plan,
+			allowedHosts,
+			restricted: enforceLimits && entitlements.functionEgressRestricted,
+		},
+	};
+}
+
+// Work out from the runtime's exception which limit stopped a function, or null for any other error
+export function getExceededLimit(error: unknown): FunctionLimit | null {
+	const message = error instanceof Error ? error.message : String(error);
+	if (/exceeded cpu/i.test(message)) return 'cpu';
+	if (/too many subrequests/i.test(message)) return 'subrequests';
+	if (/exceeded memory|memory limit/i.test(message)) return 'memory';
+	return null;
+}
+
+export function limitExceededResponse(
+	limit: FunctionLimit,
+	options: DispatchOptions,
+	corsHeaders: Record<string, string>
+): Response {
+	const configured: Record<FunctionLimit, number | null> = {
+		cpu: options.limits?.cpuMs ?? null,
+		subrequests: options.limits?.subRequests ?? null,
+		memory: 128,
+	};
+	const units: Record<FunctionLimit, string> = { cpu: 'ms', subrequests: 'requests', memory: 'MB' };
+	const value = configured[limit];
+
+	return new Response(
+		JSON.stringify({
+			error: 'Function limit exceeded',
+			message: value === null ? `The function exceeded its ${limit} limit` : `The function exceeded its ${limit} limit of ${value} ${units[limit]}`,
+			limit,
+			value,
+			plan: options.outbound.plan,
+		}),
+		{
+			status: 503,
+			headers: {
+				'Content-Type': 'application/json',
+				...corsHeaders,
+			},
+		}
+	);
+}
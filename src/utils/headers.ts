@@ -0,0 +1,174 @@
+import { compileSource } from './redirects';
+
+export type SecurityPreset = 'strict' | 'relaxed';
+
+export interface HeaderRule {
+	path: string;
+	headers: Record<string, string>;
+	// Origins allowed to read matching responses cross-origin, e.g. `https://app.example.com` or `https://*.example.com`.
+	// When set, this replaces the default wildcard `Access-Control-Allow-Origin` header.
+	corsOrigins?: string[];
+}
+
+export interface SiteHeaderPolicy {
+	preset?: SecurityPreset;
+	// Rules from the deployed `_headers` file
+	fileRules: HeaderRule[];
+	// Rules from the site config, these take precedence over the deployed file
+	configRules: HeaderRule[];
+	// Password protected sites, whose responses shared caches must not keep
+	private?: boolean;
+}
+
+export const SECURITY_PRESETS: Record<SecurityPreset, Record<string, string>> = {
+	strict: {
+		'Content-Security-Policy':
+			"default-src 'self'; img-src 'self' data: https:; style-src 'self' 'unsafe-inline'; script-src 'self'; font-src 'self' data:; connect-src 'self' https:; frame-ancestors 'none'; base-uri 'self'; object-src 'none'",
+		'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+		'X-Frame-Options': 'DENY',
+		'X-Content-Type-Options': 'nosniff',
+		'Referrer-Policy': 'strict-origin-when-cross-origin',
+		'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), payment=(), usb=()',
+		'Cross-Origin-Opener-Policy': 'same-origin',
+	},
+	relaxed: {
+		'X-Frame-Options': 'SAMEORIGIN',
+		'X-Content-Type-Options': 'nosniff',
+		'Referrer-Policy': 'strict-origin-when-cross-origin',
+	},
+};
+
+// Parse a Netlify style `_headers` file:
+//   /path/*
+//     Header-Name: value
+export function parseHeadersFile(contents: string): HeaderRule[] {
+	const rules: HeaderRule[] = [];
+	let current: HeaderRule | null = null;
+
+	for (const rawLine of contents.split(/\r?\n/)) {
+		if (!rawLine.trim() || rawLine.trim().startsWith('#')) continue;
+
+		// Unindented lines start a new path block
+		if (!/^\s/.test(rawLine)) {
+			current = { path: rawLine.trim(), headers: {} };
+			rules.push(current);
+			continue;
+		}
+
+		const separator = rawLine.indexOf(':');
+		if (!current || separator === -1) {
+			console.log('Skipping malformed _headers line:', rawLine);
+			continue;
+		}
+
+		const name = rawLine.slice(0, separator).trim();
+		const value = rawLine.slice(separator + 1).trim();
+		if (!name) continue;
+
+		current.headers[name] = current.headers[name] ? `${current.headers[name]}, ${value}` : value;
+	}
+
+	return rules.filter((rule) => Object.keys(rule.headers).length > 0);
+}
+
+// Collect the headers of every rule matching the path, in declaration order.
+// Values for the same header from several rules are combined like repeated headers would be.
+export function matchHeaderRules(rules: HeaderRule[], pathname: string): Record<string, string> {
+	const matched: Record<string, string> = {};
+
+	for (const rule of rules) {
+		try {
+			if (!compileSource(rule.path).pattern.test(pathname)) continue;
+		} catch (error) {
+			console.error('Invalid header rule path:', rule.path, error);
+			continue;
+		}
+
+		for (const [name, value] of Object.entries(rule.headers)) {
+			const existing = Object.keys(matched).find((key) => key.toLowerCase() === name.toLowerCase());
+			if (existing) {
+				matched[existing] = `${matched[existing]}, ${value}`;
+			} else {
+				matched[name] = value;
+			}
+		}
+	}
+
+	return matched;
+}
+
+export function isAllowedOrigin(origin: string, allowedOrigins: string[]): boolean {
+	return allowedOrigins.some((allowed) => {
+		if (allowed === '*' || allowed === origin) return true;
+
+		// `https://*.example.com` allows any subdomain of example.com over https
+		const wildcard = allowed.match(/^(https?:\/\/)\*(\..+)$/);
+		return !!wildcard && origin.startsWith(wildcard[1]) && origin.endsWith(wildcard[2]);
+	});
+}
+
+function applyCorsOrigins(headers: Headers, rules: HeaderRule[], pathname: string, origin: string | null): void {
+	const matching = rules.filter((rule) => rule.corsOrigins && compileSource(rule.path).pattern.test(pathname));
+	if (matching.length === 0) return;
+
+	const allowedOrigins = matching[matching.length - 1].corsOrigins || [];
+	if (origin && isAllowedOrigin(origin, allowedOrigins)) {
+		headers.set('Access-Control-Allow-Origin', origin);
+		headers.append('Vary', 'Origin');
+	} else {
+		headers.delete('Access-Control-Allow-Origin');
+	}
+}
+
+// Whether the preset or any header rule would change the headers of a response for this path
+export function hasCustomHeaders(policy: SiteHeaderPolicy, pathname: string): boolean {
+	if (policy.preset) return true;
+
+	return [...policy.fileRules, ...policy.configRules].some((rule) => {
+		try {
+			return compileSource(rule.path).pattern.test(pathname);
+		} catch (error) {
+			return false;
+		}
+	});
+}
+
+// Apply the security preset, `_headers` file rules and site config rules, in that order, to a response
+export function applySiteHeaders(response: Response, policy: SiteHeaderPolicy, request: Request, pathname: string): Response {
+	const { preset, fileRules, configRules } = policy;
+	if (!preset && fileRules.length === 0 && configRules.length === 0 && !policy.private) {
+		return response;
+	}
+
+	const headers = new Headers(response.headers);
+
+	if (preset && SECURITY_PRESETS[preset]) {
+		for (const [name, value] of Object.entries(SECURITY_PRESETS[preset])) {
+			headers.set(name, value);
+		}
+	}
+
+	for (const rules of [fileRules, configRules]) {
+		for (const [name, value] of Object.entries(matchHeaderRules(rules, pathname))) {
+			headers.set(name, value);
+		}
+	}
+
+	try {
+		applyCorsOrigins(headers, configRules, pathname, request.headers.get('Origin'));
+	} catch (error) {
+		console.error('Failed to apply CORS origins:', error);
+	}
+
+	if (policy.private) {
+		headers.set('Cache-Control', 'private, no-cache');
+	}
+
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+		// Responses carrying Content-Encoding hold pre-compressed bytes that must not be encoded twice
+		encodeBody: headers.has('Content-Encoding') ? 'manual' : 'automatic',
+	});
+}
@@ -0,0 +1,29 @@
+// Host allow lists shared by rewrite proxying and function egress
+// A pattern is either an exact hostname like `api.stripe.com` or `*.example.com` for any subdomain of example.com.
+
+export function parseHostList(value: string | undefined): string[] {
+	return (value || '')
+		.split(',')
+		.map((host) => host.trim())
+		.filter(Boolean);
+}
+
+export function matchesHostPattern(hostname: string, patterns: string[]): boolean {
+	const host = hostname.toLowerCase();
+	return patterns
+		.map((pattern) => pattern.trim().toLowerCase())
+		.filter(Boolean)
+		.some((pattern) => (pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern));
+}
+
+// Check that a URL is http(s) and points at one of the allowed hosts
+export function isAllowedHostUrl(url: string, patterns: string[]): boolean {
+	try {
+		const { protocol, hostname } = new URL(url);
+		if (protocol !== 'https:' && protocol !== 'http:') return false;
+		return matchesHostPattern(hostname, patterns);
+	} catch (e) {
+		console.error('Invalid URL for host check:', url);
+		return false;
+	}
+}
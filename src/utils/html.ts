@@ -0,0 +1,168 @@
+export interface HtmlRewriteOptions {
+	// Absolute URL injected as `<base href>` when the document doesn't set its own
+	baseUrl: string;
+	// Directory relative asset paths resolve from, e.g. `/blog/`, or '' for the site root
+	pathContext: string;
+	// Preview deploys append `orbiterVersionCid` so assets load from the same CID as the page
+	versionCid?: string;
+}
+
+const URL_ATTRIBUTES = ['src', 'href', 'poster'];
+const SRCSET_ATTRIBUTES = ['srcset', 'imagesrcset'];
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]*)\1\s*\)/gi;
+
+// Leave absolute URLs, protocol relative URLs, fragments and special schemes like data: or mailto: alone
+function shouldRewrite(path: string): boolean {
+	const trimmed = path.trim();
+	return !!trimmed && !trimmed.startsWith('//') && !trimmed.startsWith('#') && !/^[a-z][a-z0-9+.-]*:/i.test(trimmed);
+}
+
+export function rewriteAssetPath(path: string, options: HtmlRewriteOptions): string {
+	if (!shouldRewrite(path)) return path;
+
+	const trimmed = path.trim();
+	const assetPath = trimmed.startsWith('/') ? trimmed : options.pathContext + trimmed;
+	if (!options.versionCid) return assetPath;
+
+	const [withoutHash, ...hash] = assetPath.split('#');
+	const separator = withoutHash.includes('?') ? '&' : '?';
+	const versioned = `${withoutHash}${separator}orbiterVersionCid=${encodeURIComponent(options.versionCid)}`;
+	return hash.length > 0 ? `${versioned}#${hash.join('#')}` : versioned;
+}
+
+// Rewrite every URL in a srcset, following the candidate parsing rules from the HTML spec
+// so commas inside URLs (like data URIs) don't split a candidate
+export function rewriteSrcset(srcset: string, options: HtmlRewriteOptions): string {
+	const candidates: string[] = [];
+	let position = 0;
+
+	while (position < srcset.length) {
+		while (position < srcset.length && /[\s,]/.test(srcset[position])) position++;
+		if (position >= srcset.length) break;
+
+		let url = '';
+		while (position < srcset.length && !/\s/.test(srcset[position])) url += srcset[position++];
+
+		let descriptor = '';
+		if (url.endsWith(',')) {
+			url = url.replace(/,+$/, '');
+		} else {
+			let inParens = false;
+			while (position < srcset.length) {
+				const char = srcset[position];
+				if (char === ',' && !inParens) break;
+				if (char === '(') inParens = true;
+				if (char === ')') inParens = false;
+				descriptor += char;
+				position++;
+			}
+		}
+
+		const trimmedDescriptor = descriptor.trim();
+		candidates.push(trimmedDescriptor ? `${rewriteAssetPath(url, options)} ${trimmedDescriptor}` : rewriteAssetPath(url, options));
+	}
+
+	return candidates.join(', ');
+}
+
+export function rewriteCssUrls(css: string, options: HtmlRewriteOptions): string {
+	return css.replace(CSS_URL_PATTERN, (match, quote, path) => {
+		if (!shouldRewrite(path)) return match;
+		return `url(${quote}${rewriteAssetPath(path, options)}${quote})`;
+	});
+}
+
+// Rewrite asset URLs and inject `<base>` while the document streams through, without buffering it
+// Script contents are never touched.
+export function rewriteHtml(response: Response, options: HtmlRewriteOptions): Response {
+	const baseTag = `<base href="${options.baseUrl.replace(/"/g, '&quot;')}">`;
+	let hasBase = false;
+	let inHead = false;
+	let firstElementSeen = false;
+	let baseInjected = false;
+	let styleText = '';
+
+	const injectBase = (inject: () => void) => {
+		if (hasBase || baseInjected) return;
+		baseInjected = true;
+		inject();
+	};
+
+	let rewriter = new HTMLRewriter()
+		.on('base[href]', {
+			element() {
+				hasBase = true;
+			},
+		})
+		.on('*', {
+			element(element) {
+				// Put <base> before the first element in <head> that could resolve a URL, so everything after it uses it.
+				// <meta> and <title> never do, which lets a <base> the site declares after them (like Angular's) come first and win.
+				if (inHead) {
+					if (element.tagName !== 'meta' && element.tagName !== 'title') {
+						injectBase(() => element.before(baseTag, { html: true }));
+					}
+					return;
+				}
+
+				// <html> wraps everything, so the first element inside it decides where <base> goes
+				if (firstElementSeen || element.tagName === 'html') return;
+				firstElementSeen = true;
+
+				// Without a <head>, put it at the start of the document so it applies before any URL is resolved
+				if (element.tagName !== 'head') {
+					injectBase(() => element.before(baseTag, { html: true }));
+				}
+			},
+		})
+		.on('head', {
+			element(element) {
+				inHead = true;
+				// A <head> with only <meta> and <title> gets it at the end
+				element.onEndTag((endTag) => {
+					inHead = false;
+					injectBase(() => endTag.before(baseTag, { html: true }));
+				});
+			},
+		})
+		.on('[style]', {
+			element(element) {
+				const style = element.getAttribute('style');
+				if (style) element.setAttribute('style', rewriteCssUrls(style, options));
+			},
+		})
+		.on('style', {
+			text(text) {
+				styleText += text.text;
+				if (text.lastInTextNode) {
+					text.replace(rewriteCssUrls(styleText, options), { html: true });
+					styleText = '';
+				} else {
+					text.remove();
+				}
+			},
+		});
+
+	for (const attribute of URL_ATTRIBUTES) {
+		rewriter = rewriter.on(`[${attribute}]`, {
+			element(element) {
+				// The site's own <base> keeps the URL it was given
+				if (element.tagName === 'base') return;
+
+				const value = element.getAttribute(attribute);
+				if (value !== null) element.setAttribute(attribute, rewriteAssetPath(value, options));
+			},
+		});
+	}
+
+	for (const attribute of SRCSET_ATTRIBUTES) {
+		rewriter = rewriter.on(`[${attribute}]`, {
+			element(element) {
+				const value = element.getAttribute(attribute);
+				if (value) element.setAttribute(attribute, rewriteSrcset(value, options));
+			},
+		});
+	}
+
+	return rewriter.transform(response);
+}
@@ -0,0 +1,151 @@
+import { Env } from '..';
+import { getCustomHostnameStatus } from './cloudflare';
+import { CustomDomainMapping, LegacyDomainMapping } from './domains';
+import { invalidateSiteResolution } from './resolution';
+import { AdminBody, assertSiteExists, optionalString, requireMappableHostname, requireSiteKey, ValidationError } from './validation';
+
+export interface MigrationInput {
+	domain: string;
+	cloudflare_hostname_id: string;
+	worker_route_id?: string;
+	// Only needed for domains that never made it into LEGACY_DOMAINS
+	subdomain?: string;
+}
+
+export interface MigrationResult {
+	domain: string;
+	status: 'migrated' | 'pending_activation' | 'error';
+	subdomain?: string;
+	hostnameStatus?: string;
+	// Always false on dry runs, which report what they would do in `wouldWrite` and `wouldDeleteLegacy`
+	mappingWritten: boolean;
+	legacyDeleted: boolean;
+	wouldWrite?: boolean;
+	wouldDeleteLegacy?: boolean;
+	error?: string;
+	// Set for validation failures, matching the codes of the single domain admin routes
+	code?: string;
+	field?: string;
+}
+
+export const MAX_MIGRATION_BATCH = 50;
+
+// Validate one entry of the batch, the errors end up in that domain's report instead of failing the batch
+function parseMigrationInput(item: unknown): MigrationInput {
+	if (!item || typeof item !== 'object' || Array.isArray(item)) {
+		throw new ValidationError(400, 'invalid_body', 'Each entry must be an object');
+	}
+
+	const body = item as AdminBody;
+	const cloudflareHostnameId = optionalString(body, 'cloudflare_hostname_id');
+	if (!cloudflareHostnameId) {
+		throw new ValidationError(400, 'required', 'cloudflare_hostname_id is required', 'cloudflare_hostname_id');
+	}
+
+	return {
+		domain: requireMappableHostname(body),
+		cloudflare_hostname_id: cloudflareHostnameId,
+		worker_route_id: optionalString(body, 'worker_route_id'),
+		subdomain: body.subdomain === undefined ? undefined : requireSiteKey(body),
+	};
+}
+
+function errorResult(domain: string, error: string): MigrationResult {
+	return { domain, status: 'error', mappingWritten: false, legacyDeleted: false, error };
+}
+
+// Move one domain from Digital Ocean to Cloudflare for SaaS
+// The SaaS mapping is written right away, the legacy entry is only removed once Cloudflare reports the hostname active
+async function migrateDomain(item: unknown, env: Env, dryRun: boolean): Promise<MigrationResult> {
+	const input = parseMigrationInput(item);
+	const domain = input.domain;
+
+	const [legacyValue, customValue] = await Promise.all([env.LEGACY_DOMAINS.get(domain), env.CUSTOM_DOMAINS.get(domain)]);
+	const legacyMapping: LegacyDomainMapping | null = legacyValue ? JSON.parse(legacyValue) : null;
+	const existingCustom: CustomDomainMapping | null = customValue ? JSON.parse(customValue) : null;
+
+	const subdomain = legacyMapping?.subdomain || input.subdomain;
+	if (!subdomain) {
+		return errorResult(domain, 'Domain is not a legacy domain and no subdomain was given');
+	}
+	if (legacyMapping && input.subdomain && input.subdomain !== legacyMapping.subdomain) {
+		return errorResult(domain, `Subdomain ${input.subdomain} does not match legacy mapping ${legacyMapping.subdomain}`);
+	}
+	if (existingCustom && existingCustom.subdomain !== subdomain) {
+		return errorResult(domain, `Domain is already mapped to ${existingCustom.subdomain}`);
+	}
+	await assertSiteExists(env, subdomain);
+
+	let hostnameStatus: string | undefined;
+	try {
+		const customHostname = await getCustomHostnameStatus(input.cloudflare_hostname_id, env);
+		hostnameStatus = customHostname?.status;
+		if (customHostname?.hostname && customHostname.hostname !== domain) {
+			return errorResult(domain, `Custom hostname ${input.cloudflare_hostname_id} belongs to ${customHostname.hostname}`);
+		}
+	} catch (error) {
+		return errorResult(domain, `Failed to check custom hostname: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+
+	const isActive = hostnameStatus === 'active';
+	const result: MigrationResult = {
+		domain,
+		status: isActive ? 'migrated' : 'pending_activation',
+		subdomain,
+		hostnameStatus,
+		mappingWritten: false,
+		legacyDeleted: false,
+	};
+
+	// Dry runs report what would happen without touching KV
+	if (dryRun) {
+		result.wouldWrite = true;
+		result.wouldDeleteLegacy = isActive && !!legacyMapping;
+		return result;
+	}
+
+	const mapping: CustomDomainMapping = {
+		subdomain,
+		created: existingCustom?.created || new Date().toISOString(),
+		cloudflare_hostname_id: input.cloudflare_hostname_id,
+		worker_route_id: input.worker_route_id,
+		type: 'cloudflare-saas',
+	};
+
+	try {
+		await env.CUSTOM_DOMAINS.put(domain, JSON.stringify(mapping), { metadata: mapping });
+		result.mappingWritten = true;
+
+		if (isActive && legacyMapping) {
+			await env.LEGACY_DOMAINS.delete(domain);
+			result.legacyDeleted = true;
+		}
+
+		await invalidateSiteResolution(domain);
+	} catch (error) {
+		result.status = 'error';
+		result.error = error instanceof Error ? error.message : 'Unknown error';
+	}
+
+	return result;
+}
+
+export async function migrateLegacyDomains(items: unknown[], env: Env, dryRun: boolean): Promise<MigrationResult[]> {
+	const results: MigrationResult[] = [];
+
+	// One at a time keeps us well inside the subrequest limit and the Cloudflare API rate limit
+	for (const item of items) {
+		try {
+			results.push(await migrateDomain(item, env, dryRun));
+		} catch (error) {
+			const domain = String((item as Partial<MigrationInput> | null)?.domain);
+			if (error instanceof ValidationError) {
+				results.push({ ...errorResult(domain, error.message), code: error.code, field: error.field });
+			} else {
+				results.push(errorResult(domain, error instanceof Error ? error.message : 'Unknown error'));
+			}
+		}
+	}
+
+	return results;
+}
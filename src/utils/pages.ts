@@ -0,0 +1,59 @@
+function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderPage(title: string, message: string): string {
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title} | Orbiter</title>
+<style>
+body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, -apple-system, sans-serif; background: #0b0b12; color: #f5f5f7; }
+main { max-width: 480px; padding: 32px; text-align: center; }
+h1 { font-size: 24px; margin: 0 0 12px; }
+p { color: #a1a1aa; line-height: 1.5; margin: 0 0 24px; }
+a { color: #8b5cf6; }
+</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p>${message}</p>
+<a href="https://orbiter.host">Host your site with Orbiter</a>
+</main>
+</body>
+</html>`;
+}
+
+function brandedResponse(html: string, status: number): Response {
+	return new Response(html, {
+		status,
+		headers: {
+			'Content-Type': 'text/html; charset=utf-8',
+			// Keep this short so the page goes away as soon as the domain is connected
+			'Cache-Control': 'public, max-age=60',
+			'Powered-By': 'Orbiter',
+		},
+	});
+}
+
+// Shown for hostnames that point at Orbiter but aren't connected to a site
+export function domainNotConnectedResponse(hostname: string): Response {
+	return brandedResponse(
+		renderPage(
+			'Domain not connected',
+			`<strong>${escapeHtml(hostname)}</strong> points to Orbiter, but it isn't connected to a site yet. If this is your domain, add it to your site in the Orbiter dashboard.`
+		),
+		404
+	);
+}
+
+// Shown for connected domains whose site has no deployed content
+export function siteNotFoundResponse(hostname: string): Response {
+	return brandedResponse(
+		renderPage('Site not found', `There is no site deployed at <strong>${escapeHtml(hostname)}</strong> right now.`),
+		404
+	);
+}
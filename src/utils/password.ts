@@ -0,0 +1,56 @@
+import { timingSafeEqualStrings } from './auth';
+
+// Set in the site config to make visitors log in with HTTP Basic auth
+export interface PasswordProtection {
+	// Any username is accepted when omitted
+	username?: string;
+	salt: string;
+	// Hex SHA-256 of `${salt}${password}`
+	passwordHash: string;
+}
+
+const encoder = new TextEncoder();
+
+export async function hashSitePassword(salt: string, password: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${salt}${password}`));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function parseBasicAuth(header: string | null): { username: string; password: string } | null {
+	const [scheme, encoded] = header?.split(' ') || [];
+	if (scheme?.toLowerCase() !== 'basic' || !encoded) return null;
+
+	try {
+		const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+		const decoded = new TextDecoder().decode(bytes);
+		const separator = decoded.indexOf(':');
+		if (separator === -1) return null;
+		return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+	} catch (error) {
+		return null;
+	}
+}
+
+export async function verifySitePassword(request: Request, protection: PasswordProtection): Promise<boolean> {
+	const credentials = parseBasicAuth(request.headers.get('Authorization'));
+	if (!credentials) return false;
+
+	// Compare both parts every time so the response time doesn't reveal which one was wrong
+	const [usernameMatches, passwordMatches] = await Promise.all([
+		protection.username ? timingSafeEqualStrings(credentials.username, protection.username) : true,
+		timingSafeEqualStrings(await hashSitePassword(protection.salt, credentials.password), protection.passwordHash.toLowerCase()),
+	]);
+	return usernameMatches && passwordMatches;
+}
+
+export function passwordRequiredResponse(siteKey: string): Response {
+	return new Response('Password required', {
+		status: 401,
+		headers: {
+			'Content-Type': 'text/plain',
+			'WWW-Authenticate': `Basic realm="${siteKey.replace(/"/g, '')}", charset="UTF-8"`,
+			'Cache-Control': 'no-store',
+			'Powered-By': 'Orbiter',
+		},
+	});
+}
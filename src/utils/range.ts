@@ -0,0 +1,247 @@
+import { matchesIfRange } from './etag';
+
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+// Past this many ranges the request is more likely abuse than a real client, so we serve the whole file
+const MAX_RANGES = 16;
+
+// Parse a Range header as described in RFC 7233, supporting `a-b`, `a-` and `-suffix` specs.
+// Returns null when the header should be ignored and an empty array when no range is satisfiable.
+// Overlapping and adjacent ranges are coalesced and sorted.
+export function parseRangeHeader(rangeHeader: string, contentLength: number): ByteRange[] | null {
+	const match = rangeHeader.trim().match(/^bytes\s*=\s*(.+)$/i);
+	if (!match) return null;
+
+	const specs = match[1].split(',').map((spec) => spec.trim());
+	if (specs.length > MAX_RANGES) return null;
+
+	const ranges: ByteRange[] = [];
+	for (const spec of specs) {
+		const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+		if (!parts || (!parts[1] && !parts[2])) return null;
+
+		if (!parts[1]) {
+			// Suffix range: the last N bytes
+			const suffixLength = parseInt(parts[2], 10);
+			if (suffixLength === 0 || contentLength === 0) continue;
+			ranges.push({ start: Math.max(0, contentLength - suffixLength), end: contentLength - 1 });
+			continue;
+		}
+
+		const start = parseInt(parts[1], 10);
+		const end = parts[2] ? parseInt(parts[2], 10) : contentLength - 1;
+		if (parts[2] && end < start) return null;
+		if (start >= contentLength) continue;
+
+		ranges.push({ start, end: Math.min(end, contentLength - 1) });
+	}
+
+	ranges.sort((a, b) => a.start - b.start);
+
+	const coalesced: ByteRange[] = [];
+	for (const range of ranges) {
+		const previous = coalesced[coalesced.length - 1];
+		if (previous && range.start <= previous.end + 1) {
+			previous.end = Math.max(previous.end, range.end);
+		} else {
+			coalesced.push({ ...range });
+		}
+	}
+
+	return coalesced;
+}
+
+export interface StreamSegment {
+	range: ByteRange;
+	prefix?: Uint8Array;
+}
+
+// Stream only the requested byte ranges out of a full body, optionally wrapping each range in a multipart header
+export function sliceStream(source: ReadableStream<Uint8Array>, segments: StreamSegment[], suffix?: Uint8Array): ReadableStream<Uint8Array> {
+	const reader = source.getReader();
+	let offset = 0;
+	let index = 0;
+	let prefixSent = false;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			while (true) {
+				if (index >= segments.length) {
+					if (suffix) controller.enqueue(suffix);
+					controller.close();
+					await reader.cancel();
+					return;
+				}
+
+				const { value, done } = await reader.read();
+				if (done) {
+					controller.error(new Error('Upstream body ended before the requested range'));
+					return;
+				}
+
+				const chunkStart = offset;
+				const chunkEnd = offset + value.byteLength;
+				offset = chunkEnd;
+				let emitted = false;
+
+				while (index < segments.length) {
+					const { range, prefix } = segments[index];
+					if (range.start >= chunkEnd) break;
+
+					if (prefix && !prefixSent) {
+						controller.enqueue(prefix);
+						prefixSent = true;
+					}
+
+					const from = Math.max(range.start, chunkStart) - chunkStart;
+					const to = Math.min(range.end + 1, chunkEnd) - chunkStart;
+					if (to > from) {
+						// Copy, the runtime may detach an enqueued view's buffer and lose later ranges from the same chunk
+						controller.enqueue(value.slice(from, to));
+						emitted = true;
+					}
+
+					if (range.end + 1 > chunkEnd) break;
+					index++;
+					prefixSent = false;
+				}
+
+				if (emitted) return;
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+}
+
+function fullBody(response: Response, headers: Record<string, string>): Response {
+	const fullHeaders: Record<string, string> = {
+		...headers,
+		'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+	};
+	const contentLength = response.headers.get('Content-Length');
+	if (contentLength) fullHeaders['Content-Length'] = contentLength;
+
+	return new Response(response.body, { status: 200, headers: fullHeaders });
+}
+
+function unsatisfiable(contentLength: number | string | null, headers: Record<string, string>): Response {
+	const unsatisfiableHeaders: Record<string, string> = { ...headers, 'Content-Type': 'text/plain' };
+	if (contentLength !== null) unsatisfiableHeaders['Content-Range'] = `bytes */${contentLength}`;
+
+	return new Response('Range not satisfiable', { status: 416, headers: unsatisfiableHeaders });
+}
+
+// Build the 206 response for ranges we have to cut out of a full gateway response ourselves
+function partialFromFullBody(fullResponse: Response, ranges: ByteRange[], contentLength: number, headers: Record<string, string>): Response {
+	const contentType = fullResponse.headers.get('Content-Type') || 'application/octet-stream';
+
+	if (ranges.length === 1) {
+		const [range] = ranges;
+		return new Response(sliceStream(fullResponse.body!, [{ range }]), {
+			status: 206,
+			headers: {
+				...headers,
+				'Content-Type': contentType,
+				'Content-Length': (range.end - range.start + 1).toString(),
+				'Content-Range': `bytes ${range.start}-${range.end}/${contentLength}`,
+			},
+		});
+	}
+
+	const encoder = new TextEncoder();
+	const boundary = `orbiter-${crypto.randomUUID()}`;
+	const segments = ranges.map((range) => ({
+		range,
+		prefix: encoder.encode(
+			`\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${contentLength}\r\n\r\n`
+		),
+	}));
+	const suffix = encoder.encode(`\r\n--${boundary}--\r\n`);
+	const multipartLength = segments.reduce(
+		(total, segment) => total + segment.prefix.byteLength + segment.range.end - segment.range.start + 1,
+		suffix.byteLength
+	);
+
+	return new Response(sliceStream(fullResponse.body!, segments, suffix), {
+		status: 206,
+		headers: {
+			...headers,
+			'Content-Type': `multipart/byteranges; boundary=${boundary}`,
+			'Content-Length': multipartLength.toString(),
+		},
+	});
+}
+
+// Handle a Range request for any file in the site
+// The client's Range header goes straight to the gateway, so there is no extra round-trip when it supports ranges.
+// If the gateway ignores it we cut the ranges out of the full body, including multipart/byteranges responses.
+export async function handleRangeRequest(
+	gatewayUrl: string,
+	cleanPath: string,
+	rangeHeader: string,
+	ifRangeHeader: string | null,
+	headers: Record<string, string>
+): Promise<Response> {
+	const fileUrl = `${gatewayUrl}/${cleanPath}`;
+	const rangeHeaders = { ...headers, 'Accept-Ranges': 'bytes' };
+
+	// A changed validator means the client's partial copy is stale, so send the whole file instead
+	if (headers.ETag && !matchesIfRange(ifRangeHeader, headers.ETag)) {
+		const fullResponse = await fetch(fileUrl);
+		if (!fullResponse.ok) {
+			return new Response('File not found', { status: 404 });
+		}
+
+		return fullBody(fullResponse, rangeHeaders);
+	}
+
+	const gatewayResponse = await fetch(fileUrl, { headers: { Range: rangeHeader } });
+
+	if (gatewayResponse.status === 206) {
+		const partialHeaders: Record<string, string> = {
+			...rangeHeaders,
+			'Content-Type': gatewayResponse.headers.get('Content-Type') || 'application/octet-stream',
+		};
+		const contentRange = gatewayResponse.headers.get('Content-Range');
+		const contentLength = gatewayResponse.headers.get('Content-Length');
+		if (contentRange) partialHeaders['Content-Range'] = contentRange;
+		if (contentLength) partialHeaders['Content-Length'] = contentLength;
+
+		return new Response(gatewayResponse.body, { status: 206, headers: partialHeaders });
+	}
+
+	if (gatewayResponse.status === 416) {
+		const totalLength = gatewayResponse.headers.get('Content-Range')?.split('/')[1];
+		if (totalLength) {
+			return unsatisfiable(totalLength, rangeHeaders);
+		}
+
+		// Without the length from the gateway we need it from a HEAD to send a valid Content-Range
+		const headResponse = await fetch(fileUrl, { method: 'HEAD' });
+		return unsatisfiable(headResponse.headers.get('Content-Length'), rangeHeaders);
+	}
+
+	if (!gatewayResponse.ok) {
+		return new Response('File not found', { status: 404 });
+	}
+
+	// The gateway ignored the Range header and sent the whole file
+	const contentLength = parseInt(gatewayResponse.headers.get('Content-Length') || '', 10);
+	const ranges = Number.isNaN(contentLength) ? null : parseRangeHeader(rangeHeader, contentLength);
+
+	if (!ranges || !gatewayResponse.body) {
+		return fullBody(gatewayResponse, rangeHeaders);
+	}
+
+	if (ranges.length === 0) {
+		await gatewayResponse.body.cancel();
+		return unsatisfiable(contentLength, rangeHeaders);
+	}
+
+	return partialFromFullBody(gatewayResponse, ranges, contentLength, rangeHeaders);
+}
@@ -0,0 +1,256 @@
+import { isAllowedHostUrl, parseHostList } from './hosts';
+
+export interface Redirect {
+	source: string;
+	destination: string;
+	status: number;
+	force?: boolean;
+	// Query parameters the request must carry for the rule to apply.
+	// A value starting with ':' captures the parameter as a placeholder, anything else must match exactly.
+	query?: Record<string, string>;
+}
+
+export interface RedirectMatch {
+	redirect: Redirect;
+	destination: string;
+	params: Record<string, string>;
+}
+
+// Precedence tiers, lowest wins
+const MatchTier = {
+	Exact: 0,
+	Placeholder: 1,
+	Splat: 2,
+} as const;
+
+type MatchTier = (typeof MatchTier)[keyof typeof MatchTier];
+
+export interface CompiledRedirect {
+	redirect: Redirect;
+	pattern: RegExp;
+	keys: string[];
+	tier: MatchTier;
+	index: number;
+}
+
+const PLACEHOLDER_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Strip the trailing slash so `/blog` and `/blog/` match the same rules
+function normalizeRulePath(path: string): string {
+	const withLeadingSlash = path.startsWith('/') ? path : `/${path}`;
+	return withLeadingSlash.length > 1 ? withLeadingSlash.replace(/\/+$/, '') : withLeadingSlash;
+}
+
+// Compile a single source path into a regular expression
+// Supports `:name` placeholders for a single segment and a trailing `*` splat exposed as `:splat`
+export function compileSource(source: string, force = false): { pattern: RegExp; keys: string[]; tier: MatchTier } {
+	const sourcePath = normalizeRulePath(source);
+	const segments = sourcePath.split('/').slice(1);
+	const keys: string[] = [];
+	let tier: MatchTier = MatchTier.Exact;
+	let regex = '';
+
+	for (let i = 0; i < segments.length; i++) {
+		const segment = segments[i];
+		const isLast = i === segments.length - 1;
+
+		if (segment === '*' && isLast) {
+			// `/docs/*` also matches `/docs` itself
+			regex += '(?:/(.*))?';
+			keys.push('splat');
+			tier = MatchTier.Splat;
+		} else if (segment.startsWith(':') && /^:[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+			regex += '/([^/]+)';
+			keys.push(segment.slice(1));
+			if (tier === MatchTier.Exact) tier = MatchTier.Placeholder;
+		} else {
+			regex += `/${escapeRegExp(segment)}`;
+		}
+	}
+
+	// Legacy behaviour: forced literal rules match any path starting with the source
+	if (force && tier === MatchTier.Exact) {
+		keys.push('splat');
+		return { pattern: new RegExp(`^${regex}(.*)$`), keys, tier: MatchTier.Splat };
+	}
+
+	return { pattern: new RegExp(`^${regex}/?$`), keys, tier };
+}
+
+// Compile redirect rules into matchers ordered by precedence:
+// 1. exact sources, 2. sources with placeholders, 3. splats and forced prefix rules.
+// Within a tier, rules with query conditions come first, then the order the rules were declared in.
+// Dashboard rules keep the legacy meaning of `force` as a prefix match, `_redirects` rules only use it to shadow files.
+export function compileRedirects(redirects: Redirect[], { forceMatchesPrefix = true }: { forceMatchesPrefix?: boolean } = {}): CompiledRedirect[] {
+	const compiled: CompiledRedirect[] = [];
+
+	redirects.forEach((redirect, index) => {
+		// The `404` entry configures the custom not found page and is never matched against paths
+		if (!redirect?.source || !redirect?.destination || redirect.source === '404') {
+			return;
+		}
+
+		try {
+			const { pattern, keys, tier } = compileSource(redirect.source, forceMatchesPrefix && !!redirect.force);
+			compiled.push({ redirect, pattern, keys, tier, index });
+		} catch (error) {
+			console.error('Invalid redirect source:', redirect.source, error);
+		}
+	});
+
+	return compiled.sort((a, b) => {
+		if (a.tier !== b.tier) return a.tier - b.tier;
+		const aHasQuery = a.redirect.query && Object.keys(a.redirect.query).length > 0 ? 0 : 1;
+		const bHasQuery = b.redirect.query && Object.keys(b.redirect.query).length > 0 ? 0 : 1;
+		if (aHasQuery !== bHasQuery) return aHasQuery - bHasQuery;
+		return a.index - b.index;
+	});
+}
+
+function matchQuery(query: Record<string, string> | undefined, searchParams: URLSearchParams, params: Record<string, string>): boolean {
+	if (!query) return true;
+
+	for (const [name, expected] of Object.entries(query)) {
+		const value = searchParams.get(name);
+		if (value === null) return false;
+
+		if (expected.startsWith(':')) {
+			params[expected.slice(1)] = value;
+		} else if (expected !== value) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+// Replace `:name` and `:splat` tokens in the destination with the captured values
+export function interpolateDestination(destination: string, params: Record<string, string>): string {
+	return destination.replace(PLACEHOLDER_PATTERN, (token, name) => (name in params ? params[name] : token));
+}
+
+// Get the path portion of a destination so we can detect rules pointing back at the current path
+function getDestinationPath(destination: string): string {
+	if (destination.startsWith('http://') || destination.startsWith('https://')) {
+		try {
+			return new URL(destination).pathname;
+		} catch (e) {
+			console.error('Invalid destination URL:', destination);
+			return destination;
+		}
+	}
+
+	return (destination.startsWith('/') ? destination : `/${destination}`).split(/[?#]/)[0];
+}
+
+// Find the first rule, by precedence, matching the path and query of the request
+export function matchRedirect(compiled: CompiledRedirect[], pathname: string, searchParams: URLSearchParams): RedirectMatch | null {
+	for (const rule of compiled) {
+		const match = rule.pattern.exec(pathname);
+		if (!match) continue;
+
+		const params: Record<string, string> = {};
+		rule.keys.forEach((key, i) => {
+			params[key] = match[i + 1] ?? '';
+		});
+
+		if (!matchQuery(rule.redirect.query, searchParams, params)) continue;
+
+		const destination = interpolateDestination(rule.redirect.destination, params);
+
+		// Skip rules that would send the visitor to the page they are already on
+		if (getDestinationPath(destination) === pathname) continue;
+
+		return { redirect: rule.redirect, destination, params };
+	}
+
+	return null;
+}
+
+// Rules with a 200 status serve the destination in place instead of redirecting
+export function isRewrite(redirect: Redirect): boolean {
+	return Number(redirect?.status) === 200;
+}
+
+// Rules with a 4xx status serve the destination in place with that status, e.g. `/* /404.html 404`
+export function isStatusRewrite(redirect: Redirect): boolean {
+	const status = Number(redirect?.status);
+	return status >= 400 && status < 500;
+}
+
+// Path an internal rewrite serves from the site's CID, without the destination's query or fragment
+export function getRewritePath(destination: string): string {
+	const path = destination.split(/[?#]/)[0];
+	return path.startsWith('/') ? path : `/${path}`;
+}
+
+export function isExternalDestination(destination: string): boolean {
+	return destination.startsWith('http://') || destination.startsWith('https://');
+}
+
+// Check an external rewrite target against the comma separated list of hosts we are allowed to proxy
+export function isAllowedRewriteHost(destination: string, allowedHosts: string | undefined): boolean {
+	return isAllowedHostUrl(destination, parseHostList(allowedHosts));
+}
+
+// Parse a Netlify style `_redirects` file:
+//   /from [param=value ...] /to [status][!]
+// As on Netlify, rules only apply where no file is deployed unless their status is forced with `!`.
+// Lines with conditions we can't evaluate at the edge (Country, Language, Role, Cookie) are skipped.
+export function parseRedirectsFile(contents: string): Redirect[] {
+	const redirects: Redirect[] = [];
+
+	for (const rawLine of contents.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const tokens = line.split(/\s+/);
+		if (tokens.length < 2) {
+			console.log('Skipping malformed _redirects line:', rawLine);
+			continue;
+		}
+
+		const [source, ...rest] = tokens;
+		const destinationIndex = rest.findIndex((token) => token.startsWith('/') || isExternalDestination(token));
+		if (destinationIndex === -1) {
+			console.log('Skipping _redirects line without destination:', rawLine);
+			continue;
+		}
+
+		const query: Record<string, string> = {};
+		for (const condition of rest.slice(0, destinationIndex)) {
+			const [name, value] = condition.split('=');
+			if (!name || value === undefined) continue;
+			query[name] = value;
+		}
+
+		const [statusToken, ...conditions] = rest.slice(destinationIndex + 1);
+		if (conditions.some((condition) => /^(country|language|role|cookie)=/i.test(condition))) {
+			console.log('Skipping _redirects line with unsupported conditions:', rawLine);
+			continue;
+		}
+
+		const status = statusToken ? parseInt(statusToken, 10) : 301;
+		const redirect: Redirect = {
+			source,
+			destination: rest[destinationIndex],
+			status: Number.isNaN(status) ? 301 : status,
+		};
+
+		if (statusToken?.endsWith('!')) {
+			redirect.force = true;
+		}
+
+		if (Object.keys(query).length > 0) {
+			redirect.query = query;
+		}
+
+		redirects.push(redirect);
+	}
+
+	return redirects;
+}
@@ -0,0 +1,99 @@
+// Trusted context about the original request, sent to customer functions as X-Orbiter-* headers.
+// This file has no imports so functions can copy it and use `readOrbiterContext` as is.
+
+export interface OrbiterRequestContext {
+	// Hostname the visitor requested, before any proxying
+	host: string;
+	// Full original path including `/api`, and the query string
+	path: string;
+	siteKey: string;
+	orgId: string;
+	// CID of the deploy that served the request
+	cid: string;
+	requestId: string;
+	// Unix seconds the context was signed at
+	timestamp: number;
+}
+
+const HEADER_PREFIX = 'x-orbiter-';
+const SIGNATURE_HEADER = 'X-Orbiter-Signature';
+// Functions should reject contexts older than this, requests are forwarded immediately
+const MAX_AGE_SECONDS = 300;
+
+// Header for each field, in the order they are signed
+const CONTEXT_HEADERS: [keyof OrbiterRequestContext, string][] = [
+	['host', 'X-Orbiter-Host'],
+	['path', 'X-Orbiter-Path'],
+	['siteKey', 'X-Orbiter-Site'],
+	['orgId', 'X-Orbiter-Org'],
+	['cid', 'X-Orbiter-Cid'],
+	['requestId', 'X-Orbiter-Request-Id'],
+	['timestamp', 'X-Orbiter-Timestamp'],
+];
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// One `name:value` line per header, so a value can't be shifted into another field
+function canonicalize(context: OrbiterRequestContext): string {
+	return CONTEXT_HEADERS.map(([field, header]) => `${header.toLowerCase()}:${context[field]}`).join('\n');
+}
+
+// Remove every X-Orbiter-* header, so nothing a client sent can pass for context we set
+export function stripOrbiterHeaders(headers: Headers): void {
+	for (const name of [...headers.keys()]) {
+		if (name.toLowerCase().startsWith(HEADER_PREFIX)) headers.delete(name);
+	}
+}
+
+// Set the context headers, signed with the site's secret when it has one
+export async function setOrbiterContext(headers: Headers, context: OrbiterRequestContext, secret?: string): Promise<void> {
+	stripOrbiterHeaders(headers);
+
+	for (const [field, header] of CONTEXT_HEADERS) {
+		headers.set(header, String(context[field]));
+	}
+
+	if (secret) {
+		headers.set(SIGNATURE_HEADER, await hmacHex(secret, canonicalize(context)));
+	}
+}
+
+// Read and verify the context inside a function
+// Returns null when headers are missing, the signature doesn't match or the context is too old.
+export async function readOrbiterContext(request: Request, secret: string): Promise<OrbiterRequestContext | null> {
+	const values: Partial<Record<keyof OrbiterRequestContext, string>> = {};
+	for (const [field, header] of CONTEXT_HEADERS) {
+		const value = request.headers.get(header);
+		if (value === null) return null;
+		values[field] = value;
+	}
+
+	const context: OrbiterRequestContext = {
+		host: values.host!,
+		path: values.path!,
+		siteKey: values.siteKey!,
+		orgId: values.orgId!,
+		cid: values.cid!,
+		requestId: values.requestId!,
+		timestamp: parseInt(values.timestamp!, 10),
+	};
+
+	if (Number.isNaN(context.timestamp) || Math.abs(Date.now() / 1000 - context.timestamp) > MAX_AGE_SECONDS) return null;
+
+	const signature = request.headers.get(SIGNATURE_HEADER);
+	if (!signature) return null;
+
+	const expected = await hmacHex(secret, canonicalize(context));
+	const [expectedHash, signatureHash] = await Promise.all([
+		crypto.subtle.digest('SHA-256', encoder.encode(expected)),
+		crypto.subtle.digest('SHA-256', encoder.encode(signature.toLowerCase())),
+	]);
+
+	return crypto.subtle.timingSafeEqual(expectedHash, signatureHash) ? context : null;
+}
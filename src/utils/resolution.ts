@@ -0,0 +1,137 @@
+import { Env } from '..';
+import { DomainResolution, resolveSiteKey } from './domains';
+import { getSiteConfig, SiteConfig } from './siteConfig';
+
+// Everything the static path needs to know about a hostname, gathered from the KV namespaces in one go
+export interface SiteRecord extends DomainResolution {
+	orgId: string;
+	cid: string | null;
+	plan: string | null;
+	contract: string | null;
+	// Raw REDIRECTS entry, parsed by the caller only when the plan allows redirects
+	redirects: string | null;
+	config: SiteConfig;
+}
+
+const RESOLUTION_CACHE_ORIGIN = 'https://resolution.orbiter.internal';
+const ISOLATE_TTL_MS = 30 * 1000;
+const EDGE_TTL_SECONDS = 60;
+// Hostnames without a site are cached briefly so a new deploy shows up quickly
+const NEGATIVE_TTL_SECONDS = 10;
+const MAX_ISOLATE_ENTRIES = 1000;
+
+interface IsolateEntry {
+	record: SiteRecord | null;
+	expires: number;
+}
+
+const isolateCache = new Map<string, IsolateEntry>();
+
+function getCacheKey(hostname: string): Request {
+	return new Request(`${RESOLUTION_CACHE_ORIGIN}/${encodeURIComponent(hostname.toLowerCase())}`);
+}
+
+function getFromIsolate(hostname: string): IsolateEntry | null {
+	const entry = isolateCache.get(hostname);
+	if (!entry) return null;
+
+	isolateCache.delete(hostname);
+	if (entry.expires < Date.now()) return null;
+
+	// Re-insert so the Map's insertion order tracks recency
+	isolateCache.set(hostname, entry);
+	return entry;
+}
+
+function setInIsolate(hostname: string, record: SiteRecord | null, ttlMs: number): void {
+	isolateCache.delete(hostname);
+	if (isolateCache.size >= MAX_ISOLATE_ENTRIES) {
+		const leastRecent = isolateCache.keys().next().value;
+		if (leastRecent !== undefined) isolateCache.delete(leastRecent);
+	}
+	isolateCache.set(hostname, { record, expires: Date.now() + ttlMs });
+}
+
+async function loadSiteRecord(hostname: string, env: Env): Promise<SiteRecord | null> {
+	const domainResolution = await resolveSiteKey(hostname, env);
+	if (!domainResolution) return null;
+
+	const siteKey = domainResolution.siteKey;
+
+	console.log(`Domain Resolution:`, {
+		hostname,
+		siteKey,
+		domainType: domainResolution.domainType,
+		isLegacy: domainResolution.isLegacy,
+	});
+
+	const orgId = (await env.SITE_TO_ORG.get(siteKey)) || '0';
+
+	const [cid, plan, contract, redirects, config] = await Promise.all([
+		env.ORBITER_SITES.get(siteKey),
+		env.SITE_PLANS.get(orgId),
+		env.SITE_CONTRACT.get(siteKey),
+		env.REDIRECTS.get(siteKey),
+		getSiteConfig(env, siteKey),
+	]);
+
+	return {
+		...domainResolution,
+		orgId,
+		cid,
+		plan,
+		contract,
+		redirects,
+		config,
+	};
+}
+
+// Resolve a hostname to its site record, going through an isolate LRU and the Cache API before KV
+// Returns null for hostnames not connected to any site, which are cached like any other miss.
+export async function resolveSite(hostname: string, env: Env, ctx: ExecutionContext): Promise<SiteRecord | null> {
+	const key = hostname.toLowerCase();
+
+	const fromIsolate = getFromIsolate(key);
+	if (fromIsolate) return fromIsolate.record;
+
+	const cacheKey = getCacheKey(key);
+	try {
+		const cached = await caches.default.match(cacheKey);
+		if (cached) {
+			const record = (await cached.json()) as SiteRecord | null;
+			setInIsolate(key, record, record?.cid ? ISOLATE_TTL_MS : NEGATIVE_TTL_SECONDS * 1000);
+			return record;
+		}
+	} catch (error) {
+		console.error('Site resolution cache lookup failed:', error);
+	}
+
+	const record = await loadSiteRecord(key, env);
+	const ttlSeconds = record?.cid ? EDGE_TTL_SECONDS : NEGATIVE_TTL_SECONDS;
+
+	setInIsolate(key, record, Math.min(ISOLATE_TTL_MS, ttlSeconds * 1000));
+	ctx.waitUntil(
+		caches.default
+			.put(
+				cacheKey,
+				new Response(JSON.stringify(record), {
+					headers: {
+						'Content-Type': 'application/json',
+						'Cache-Control': `public, max-age=${ttlSeconds}`,
+					},
+				})
+			)
+			.catch((error) => console.error('Failed to cache site resolution:', error))
+	);
+
+	return record;
+}
+
+// Drop a hostname from this isolate and this data center's cache
+// Other isolates and locations pick up the change once their short TTLs run out.
+export async function invalidateSiteResolution(hostname: string): Promise<boolean> {
+	const key = hostname.toLowerCase();
+	const inIsolate = isolateCache.delete(key);
+	const inCache = await caches.default.delete(getCacheKey(key));
+	return inIsolate || inCache;
+}
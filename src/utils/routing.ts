@@ -0,0 +1,98 @@
+import { HeaderRule, parseHeadersFile } from './headers';
+import { parseRedirectsFile, Redirect } from './redirects';
+
+export interface SiteRoutingFiles {
+	redirects: Redirect[];
+	headers: HeaderRule[];
+}
+
+const ROUTING_CACHE_ORIGIN = 'https://routing.orbiter.internal';
+const MAX_ISOLATE_ENTRIES = 500;
+
+// CIDs are immutable, so parsed routing files can be kept for as long as the isolate lives
+const isolateCache = new Map<string, Promise<SiteRoutingFiles>>();
+
+// Only a 404 means the site has no such file, null means we couldn't tell and nothing should be cached
+async function fetchRoutingFile(gatewayUrl: string, fileName: string): Promise<string | null> {
+	try {
+		const response = await fetch(`${gatewayUrl}/${fileName}`);
+		if (response.status === 404) return '';
+		if (!response.ok) {
+			console.error(`Failed to fetch ${fileName}: gateway responded with ${response.status}`);
+			return null;
+		}
+
+		// Gateways may answer a missing file with a directory listing or an HTML fallback
+		const contentType = response.headers.get('Content-Type') || '';
+		if (contentType.includes('text/html')) return '';
+
+		return await response.text();
+	} catch (error) {
+		console.error(`Failed to fetch ${fileName}:`, error);
+		return null;
+	}
+}
+
+async function loadRoutingFiles(gatewayUrl: string, cid: string, ctx: ExecutionContext): Promise<{ routing: SiteRoutingFiles; complete: boolean }> {
+	const cache = caches.default;
+	const cacheKey = new Request(`${ROUTING_CACHE_ORIGIN}/${cid}`);
+
+	const cached = await cache.match(cacheKey);
+	if (cached) {
+		return { routing: (await cached.json()) as SiteRoutingFiles, complete: true };
+	}
+
+	const [redirectsFile, headersFile] = await Promise.all([
+		fetchRoutingFile(gatewayUrl, '_redirects'),
+		fetchRoutingFile(gatewayUrl, '_headers'),
+	]);
+
+	const routing: SiteRoutingFiles = {
+		redirects: parseRedirectsFile(redirectsFile || ''),
+		headers: parseHeadersFile(headersFile || ''),
+	};
+
+	// Serve what we could load, but try again on the next request rather than caching a partial result
+	if (redirectsFile === null || headersFile === null) {
+		return { routing, complete: false };
+	}
+
+	ctx.waitUntil(
+		cache.put(
+			cacheKey,
+			new Response(JSON.stringify(routing), {
+				headers: {
+					'Content-Type': 'application/json',
+					'Cache-Control': 'public, max-age=31536000, immutable',
+				},
+			})
+		)
+	);
+
+	return { routing, complete: true };
+}
+
+// Get the parsed `_redirects` and `_headers` files at the root of a CID
+export async function getSiteRoutingFiles(gatewayUrl: string, cid: string, ctx: ExecutionContext): Promise<SiteRoutingFiles> {
+	const existing = isolateCache.get(cid);
+	if (existing) return existing;
+
+	if (isolateCache.size >= MAX_ISOLATE_ENTRIES) {
+		const oldest = isolateCache.keys().next().value;
+		if (oldest !== undefined) isolateCache.delete(oldest);
+	}
+
+	const pending = loadRoutingFiles(gatewayUrl, cid, ctx)
+		.then(({ routing, complete }) => {
+			if (!complete) isolateCache.delete(cid);
+			return routing;
+		})
+		.catch((error) => {
+			console.error('Failed to load routing files:', error);
+			isolateCache.delete(cid);
+			return { redirects: [], headers: [] };
+		});
+	isolateCache.set(cid, pending);
+
+	return pending;
+}
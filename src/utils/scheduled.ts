@@ -0,0 +1,324 @@
+import { Env } from '..';
+import { matchesCron, parseCron } from './cron';
+import { checkEntitlement, getEntitlements } from './entitlements';
+import { FunctionCron, FunctionsRecord, getDispatchOptions } from './functions';
+import { setOrbiterContext } from './requestContext';
+
+export type CronRunResult = 'success' | 'error' | 'timeout' | 'skipped';
+
+export interface CronRunStatus {
+	schedule: string;
+	script: string;
+	path: string;
+	lastRunAt: string;
+	lastResult: CronRunResult;
+	lastDurationMs: number;
+	lastStatusCode: number | null;
+	lastError: string | null;
+	lastSuccessAt: string | null;
+}
+
+// Stored in FUNCTIONS under `cron-status:${siteKey}`, keyed by `${script} ${schedule}`
+export type CronStatusRecord = Record<string, CronRunStatus>;
+
+// Stored in FUNCTIONS under `cron-index`, the schedules of every site that has crons
+export interface CronIndex {
+	updatedAt: string;
+	sites: Record<string, string[]>;
+	// Where the scan of `worker:*` records continues on the next tick, null to start from the beginning
+	scan: { cursor: string; after: string } | null;
+}
+
+const DEFAULT_PATH = '/__scheduled';
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const MAX_TIMEOUT_MS = 60 * 1000;
+// Sites run side by side in small batches so one slow function doesn't hold up the rest
+const SITE_CONCURRENCY = 10;
+const CRON_INDEX_KEY = 'cron-index';
+// Records read per tick to keep the index fresh, a full scan would run into the KV operation limit of a single invocation
+const SCAN_PAGE_SIZE = 50;
+// Each site's runs time out after MAX_TIMEOUT_MS, so a lock still held after this long belongs to a run that died
+const CRON_LOCK_TTL_SECONDS = 5 * 60;
+
+export function getCronStatusKey(siteKey: string): string {
+	return `cron-status:${siteKey}`;
+}
+
+function getCronLockKey(siteKey: string): string {
+	return `cron-lock:${siteKey}`;
+}
+
+export async function getCronStatus(env: Env, siteKey: string): Promise<CronStatusRecord | null> {
+	const value = await env.FUNCTIONS.get(getCronStatusKey(siteKey));
+	return value ? JSON.parse(value) : null;
+}
+
+function getSchedules(record: FunctionsRecord): string[] {
+	return (Array.isArray(record.crons) ? record.crons : [])
+		.map((cron) => cron?.schedule)
+		.filter((schedule): schedule is string => typeof schedule === 'string');
+}
+
+async function getCronIndex(env: Env): Promise<CronIndex> {
+	const value = await env.FUNCTIONS.get(CRON_INDEX_KEY);
+	return value ? JSON.parse(value) : { updatedAt: new Date(0).toISOString(), sites: {}, scan: null };
+}
+
+async function saveCronIndex(env: Env, index: CronIndex): Promise<CronIndex> {
+	index.updatedAt = new Date().toISOString();
+	await env.FUNCTIONS.put(CRON_INDEX_KEY, JSON.stringify(index));
+	return index;
+}
+
+// Read the next page of FUNCTIONS records into the index, so new and changed crons show up within a few ticks of a deploy
+// Sites in the index whose record falls in the scanned range but no longer exists are dropped.
+export async function scanCronIndex(env: Env): Promise<CronIndex> {
+	const index = await getCronIndex(env);
+	const result = await env.FUNCTIONS.list({ prefix: 'worker:', cursor: index.scan?.cursor, limit: SCAN_PAGE_SIZE });
+	const names = result.keys.map((key) => key.name);
+	const values = await Promise.all(names.map((name) => env.FUNCTIONS.get(name)));
+
+	const after = index.scan?.after;
+	const until = result.list_complete ? null : names[names.length - 1];
+	// A page can come back empty before the end of the list, which says nothing about which records are gone
+	if (until !== undefined) {
+		for (const siteKey of Object.keys(index.sites)) {
+			const name = `worker:${siteKey}`;
+			if ((!after || name > after) && (until === null || name <= until)) delete index.sites[siteKey];
+		}
+	}
+
+	names.forEach((name, position) => {
+		try {
+			const value = values[position];
+			const schedules = value ? getSchedules(JSON.parse(value)) : [];
+			if (schedules.length > 0) index.sites[name.slice('worker:'.length)] = schedules;
+		} catch (error) {
+			console.error(`Invalid functions record ${name}:`, error);
+		}
+	});
+
+	index.scan = result.list_complete ? null : { cursor: result.cursor, after: until || after || '' };
+	return saveCronIndex(env, index);
+}
+
+// Refresh one site's entry, called by the deploy pipeline right after it writes or removes a site's functions
+export async function updateCronIndex(env: Env, siteKey: string): Promise<CronIndex> {
+	const [index, recordValue] = await Promise.all([getCronIndex(env), env.FUNCTIONS.get(`worker:${siteKey}`)]);
+
+	const schedules = recordValue ? getSchedules(JSON.parse(recordValue)) : [];
+	if (schedules.length > 0) {
+		index.sites[siteKey] = schedules;
+	} else {
+		delete index.sites[siteKey];
+	}
+
+	return saveCronIndex(env, index);
+}
+
+function hasDueSchedule(siteKey: string, schedules: string[], scheduledTime: Date): boolean {
+	return schedules.some((schedule) => {
+		try {
+			return matchesCron(parseCron(schedule), scheduledTime);
+		} catch (error) {
+			console.error(`Invalid cron for ${siteKey}:`, schedule, error);
+			return false;
+		}
+	});
+}
+
+// The crons of a record that are due at `scheduledTime`, skipping and logging invalid definitions
+function getDueCrons(siteKey: string, record: FunctionsRecord, scheduledTime: Date): FunctionCron[] {
+	const due: FunctionCron[] = [];
+
+	for (const cron of Array.isArray(record.crons) ? record.crons : []) {
+		if (typeof cron?.schedule !== 'string') continue;
+
+		try {
+			if (matchesCron(parseCron(cron.schedule), scheduledTime)) due.push(cron);
+		} catch (error) {
+			console.error(`Invalid cron for ${siteKey}:`, cron.schedule, error);
+		}
+	}
+
+	return due;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | 'timeout'> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<'timeout'>((resolve) => {
+		timer = setTimeout(() => resolve('timeout'), timeoutMs);
+	});
+
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		if (timer !== undefined) clearTimeout(timer);
+	}
+}
+
+type CronRun = Omit<CronRunStatus, 'lastSuccessAt'>;
+
+function skippedRun(record: FunctionsRecord, cron: FunctionCron, reason: string): CronRun {
+	return {
+		schedule: cron.schedule,
+		script: cron.script || record.deployedName || '',
+		path: cron.path || DEFAULT_PATH,
+		lastRunAt: new Date().toISOString(),
+		lastResult: 'skipped',
+		lastDurationMs: 0,
+		lastStatusCode: null,
+		lastError: reason,
+	};
+}
+
+async function runCron(
+	env: Env,
+	siteKey: string,
+	record: FunctionsRecord,
+	cron: FunctionCron,
+	context: { orgId: string; cid: string; plan: string | null },
+	scheduledTime: Date
+): Promise<CronRun> {
+	const script = cron.script || record.deployedName || '';
+	const path = cron.path || DEFAULT_PATH;
+	const timeoutMs = Math.min(Math.max(cron.timeoutMs || DEFAULT_TIMEOUT_MS, 1000), MAX_TIMEOUT_MS);
+	const startedAt = Date.now();
+	const base = { schedule: cron.schedule, script, path, lastRunAt: new Date(startedAt).toISOString() };
+
+	const entitlements = getEntitlements(context.plan);
+	if (!script || checkEntitlement(entitlements, 'api')) {
+		return skippedRun(record, cron, script ? 'Plan does not include API functions' : 'No script to run');
+	}
+
+	try {
+		const dispatchOptions = getDispatchOptions(siteKey, record, entitlements, env.FUNCTION_LIMITS_ENFORCED === 'true');
+		const worker = env.dispatcher.get(script, {}, {
+			limits: dispatchOptions.limits,
+			outbound: { ...dispatchOptions.outbound },
+		});
+
+		const headers = new Headers();
+		await setOrbiterContext(
+			headers,
+			{
+				host: `${siteKey}.orbiter.website`,
+				path,
+				siteKey,
+				orgId: context.orgId,
+				cid: context.cid,
+				requestId: crypto.randomUUID(),
+				timestamp: Math.floor(startedAt / 1000),
+			},
+			record.contextSecret
+		);
+		// Set after the context, which clears every other X-Orbiter-* header
+		headers.set('X-Orbiter-Cron', cron.schedule);
+		headers.set('X-Orbiter-Scheduled-Time', scheduledTime.toISOString());
+
+		const result = await withTimeout(
+			worker.fetch(new Request(`https://${siteKey}.orbiter.website${path}`, { method: 'POST', headers })),
+			timeoutMs
+		);
+
+		if (result === 'timeout') {
+			return {
+				...base,
+				lastResult: 'timeout',
+				lastDurationMs: Date.now() - startedAt,
+				lastStatusCode: null,
+				lastError: `Timed out after ${timeoutMs}ms`,
+			};
+		}
+
+		await result.body?.cancel();
+		return {
+			...base,
+			lastResult: result.ok ? 'success' : 'error',
+			lastDurationMs: Date.now() - startedAt,
+			lastStatusCode: result.status,
+			lastError: result.ok ? null : `Function responded with ${result.status}`,
+		};
+	} catch (error) {
+		return {
+			...base,
+			lastResult: 'error',
+			lastDurationMs: Date.now() - startedAt,
+			lastStatusCode: null,
+			lastError: error instanceof Error ? error.message : 'Unknown error',
+		};
+	}
+}
+
+async function saveCronRuns(env: Env, siteKey: string, runs: CronRun[]): Promise<void> {
+	const status: CronStatusRecord = { ...((await getCronStatus(env, siteKey)) || {}) };
+	for (const run of runs) {
+		const id = `${run.script} ${run.schedule}`;
+		status[id] = {
+			...run,
+			lastSuccessAt: run.lastResult === 'success' ? run.lastRunAt : status[id]?.lastSuccessAt || null,
+		};
+		console.log(`Cron ${id} for ${siteKey}: ${run.lastResult}`, run.lastError || '');
+	}
+
+	await env.FUNCTIONS.put(getCronStatusKey(siteKey), JSON.stringify(status));
+}
+
+// Each site holds its own lock while its crons run, so a slow site only makes its own next tick skip.
+// KV is eventually consistent, so this is best effort, but it stops a slow function from stacking up runs.
+async function runSiteCrons(env: Env, siteKey: string, scheduledTime: Date): Promise<void> {
+	const value = await env.FUNCTIONS.get(`worker:${siteKey}`);
+	if (!value) return;
+
+	const record: FunctionsRecord = JSON.parse(value);
+	const due = getDueCrons(siteKey, record, scheduledTime);
+	if (due.length === 0) return;
+
+	const lockKey = getCronLockKey(siteKey);
+	if (await env.FUNCTIONS.get(lockKey)) {
+		await saveCronRuns(env, siteKey, due.map((cron) => skippedRun(record, cron, 'Previous run still in progress')));
+		return;
+	}
+
+	const runId = crypto.randomUUID();
+	await env.FUNCTIONS.put(lockKey, runId, { expirationTtl: CRON_LOCK_TTL_SECONDS });
+
+	try {
+		const orgId = (await env.SITE_TO_ORG.get(siteKey)) || '0';
+		const [plan, cid] = await Promise.all([env.SITE_PLANS.get(orgId), env.ORBITER_SITES.get(siteKey)]);
+		const context = { orgId, cid: cid || '', plan };
+
+		const runs = await Promise.all(due.map((cron) => runCron(env, siteKey, record, cron, context, scheduledTime)));
+		await saveCronRuns(env, siteKey, runs);
+	} finally {
+		// A lock that expired may have been taken by a later tick since, only release our own
+		if ((await env.FUNCTIONS.get(lockKey)) === runId) {
+			await env.FUNCTIONS.delete(lockKey);
+		}
+	}
+}
+
+// Entry point for the worker's cron trigger, which fires every minute
+export async function runScheduledFunctions(env: Env, scheduledTime: Date): Promise<void> {
+	let index: CronIndex;
+	try {
+		index = await scanCronIndex(env);
+	} catch (error) {
+		// Run from the last saved index rather than skipping every site because one scan failed
+		console.error('Failed to scan functions for crons:', error);
+		index = await getCronIndex(env);
+	}
+
+	const siteKeys = Object.keys(index.sites).filter((siteKey) => hasDueSchedule(siteKey, index.sites[siteKey], scheduledTime));
+
+	for (let i = 0; i < siteKeys.length; i += SITE_CONCURRENCY) {
+		const batch = siteKeys.slice(i, i + SITE_CONCURRENCY);
+		const results = await Promise.allSettled(batch.map((siteKey) => runSiteCrons(env, siteKey, scheduledTime)));
+
+		results.forEach((result, position) => {
+			if (result.status === 'rejected') {
+				console.error(`Scheduled functions failed for ${batch[position]}:`, result.reason);
+			}
+		});
+	}
+}
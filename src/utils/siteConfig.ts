@@ -0,0 +1,22 @@
+import { Env } from '..';
+import { HeaderRule, SecurityPreset } from './headers';
+import { PasswordProtection } from './password';
+
+// Per-site settings stored next to the site's CID in ORBITER_SITES under `config:${siteKey}`
+export interface SiteConfig {
+	headers?: HeaderRule[];
+	securityPreset?: SecurityPreset;
+	// Serve the root index.html for extensionless paths that don't exist, for client-routed apps
+	spa?: boolean;
+	passwordProtection?: PasswordProtection;
+}
+
+export async function getSiteConfig(env: Env, siteKey: string): Promise<SiteConfig> {
+	try {
+		const config = await env.ORBITER_SITES.get<SiteConfig>(`config:${siteKey}`, 'json');
+		return config || {};
+	} catch (error) {
+		console.error('Failed to parse site config:', error);
+		return {};
+	}
+}
@@ -0,0 +1,155 @@
+import { Env } from '..';
+import { DomainNamespace, getDomainNamespace } from './domains';
+
+// Thrown by the admin validators, turned into a structured 4xx response by the route
+export class ValidationError extends Error {
+	status: number;
+	code: string;
+	field?: string;
+
+	constructor(status: number, code: string, message: string, field?: string) {
+		super(message);
+		this.name = 'ValidationError';
+		this.status = status;
+		this.code = code;
+		this.field = field;
+	}
+}
+
+export type AdminBody = Record<string, unknown>;
+
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+// Site keys are usually a single label, but sites from the legacy fallback are keyed by their full hostname
+const SITE_KEY_PATTERN = /^[a-z0-9]([a-z0-9.-]{0,251}[a-z0-9])?$/;
+const NATIVE_DOMAIN = 'orbiter.website';
+
+export function validationErrorResponse(error: ValidationError): Response {
+	return new Response(
+		JSON.stringify({
+			error: {
+				code: error.code,
+				message: error.message,
+				field: error.field,
+			},
+		}),
+		{
+			status: error.status,
+			headers: { 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+// Parse the request body, which every mutating admin route expects to be a JSON object
+export async function readJsonBody(request: Request): Promise<AdminBody> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch (error) {
+		throw new ValidationError(400, 'invalid_json', 'Request body must be valid JSON');
+	}
+
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		throw new ValidationError(400, 'invalid_body', 'Request body must be a JSON object');
+	}
+
+	return body as AdminBody;
+}
+
+// Lowercase a hostname and convert IDNs to punycode, rejecting anything with a scheme, port, path or query
+export function normalizeHostname(value: unknown, field = 'domain'): string {
+	if (typeof value !== 'string' || !value.trim()) {
+		throw new ValidationError(400, 'required', `${field} is required`, field);
+	}
+
+	const trimmed = value.trim().replace(/\.$/, '');
+	if (/[\s/\\?#@:]/.test(trimmed)) {
+		throw new ValidationError(400, 'invalid_hostname', `${field} must be a bare hostname without scheme, port or path`, field);
+	}
+
+	let hostname: string;
+	try {
+		hostname = new URL(`http://${trimmed}`).hostname;
+	} catch (error) {
+		throw new ValidationError(400, 'invalid_hostname', `${field} is not a valid hostname`, field);
+	}
+
+	const labels = hostname.split('.');
+	if (hostname.length > 253 || labels.length < 2 || !labels.every((label) => LABEL_PATTERN.test(label)) || /^\d+$/.test(labels[labels.length - 1])) {
+		throw new ValidationError(400, 'invalid_hostname', `${field} is not a valid hostname`, field);
+	}
+
+	return hostname;
+}
+
+export function requireHostname(body: AdminBody, field = 'domain'): string {
+	return normalizeHostname(body[field], field);
+}
+
+// Custom and legacy domains can't claim our own hostnames, those always resolve natively
+export function requireMappableHostname(body: AdminBody, field = 'domain'): string {
+	const hostname = requireHostname(body, field);
+	if (hostname === NATIVE_DOMAIN || hostname.endsWith(`.${NATIVE_DOMAIN}`)) {
+		throw new ValidationError(422, 'reserved_domain', `${NATIVE_DOMAIN} domains can't be mapped`, field);
+	}
+	return hostname;
+}
+
+export function requireSiteKey(body: AdminBody, field = 'subdomain'): string {
+	const value = body[field];
+	if (typeof value !== 'string' || !value.trim()) {
+		throw new ValidationError(400, 'required', `${field} is required`, field);
+	}
+
+	const siteKey = value.trim().toLowerCase();
+	if (!SITE_KEY_PATTERN.test(siteKey)) {
+		throw new ValidationError(400, 'invalid_subdomain', `${field} may only contain letters, numbers, dots and hyphens`, field);
+	}
+
+	return siteKey;
+}
+
+export function optionalString(body: AdminBody, field: string): string | undefined {
+	const value = body[field];
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string' || !value.trim()) {
+		throw new ValidationError(400, 'invalid_type', `${field} must be a non-empty string`, field);
+	}
+	return value.trim();
+}
+
+export function optionalBoolean(body: AdminBody, field: string): boolean | undefined {
+	const value = body[field];
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'boolean') {
+		throw new ValidationError(400, 'invalid_type', `${field} must be a boolean`, field);
+	}
+	return value;
+}
+
+export function requireArray(body: AdminBody, field: string, maxLength: number): unknown[] {
+	const value = body[field];
+	if (!Array.isArray(value) || value.length === 0) {
+		throw new ValidationError(400, 'required', `${field} must be a non-empty array`, field);
+	}
+	if (value.length > maxLength) {
+		throw new ValidationError(400, 'too_many_items', `${field} can have at most ${maxLength} items`, field);
+	}
+	return value;
+}
+
+// Mapping a domain to a site that was never deployed would only ever serve the not found page
+export async function assertSiteExists(env: Env, siteKey: string, field = 'subdomain'): Promise<void> {
+	const cid = await env.ORBITER_SITES.get(siteKey);
+	if (!cid) {
+		throw new ValidationError(422, 'site_not_found', `No site exists for ${siteKey}`, field);
+	}
+}
+
+// A domain lives in exactly one namespace, otherwise the custom mapping silently shadows the legacy one
+export async function assertNoDomainConflict(env: Env, domain: string, namespace: DomainNamespace): Promise<void> {
+	const otherNamespace: DomainNamespace = namespace === 'custom' ? 'legacy' : 'custom';
+	const existing = await getDomainNamespace(env, otherNamespace).get(domain);
+	if (existing) {
+		throw new ValidationError(409, 'domain_conflict', `${domain} is already mapped as a ${otherNamespace} domain`, 'domain');
+	}
+}
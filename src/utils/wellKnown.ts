@@ -0,0 +1,33 @@
+const CHALLENGE_PREFIXES = ['/.well-known/acme-challenge/', '/.well-known/cf-custom-hostname-challenge/'];
+
+// Content types these files must be served with, most of them have no extension or one the gateway guesses wrong
+const WELL_KNOWN_CONTENT_TYPES: Record<string, string> = {
+	'apple-app-site-association': 'application/json',
+	'assetlinks.json': 'application/json',
+	'nostr.json': 'application/json',
+	'farcaster.json': 'application/json',
+	'did.json': 'application/json',
+	'openid-configuration': 'application/json',
+	'webfinger': 'application/jrd+json',
+	'host-meta': 'application/xrd+xml',
+	'host-meta.json': 'application/json',
+	'security.txt': 'text/plain; charset=utf-8',
+	'mta-sts.txt': 'text/plain; charset=utf-8',
+	'lnurlp': 'application/json',
+};
+
+// Only certificate and ownership challenges are answered by the worker, other .well-known files come from the site
+export function isChallengePath(pathname: string): boolean {
+	return CHALLENGE_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+export function isWellKnownPath(pathname: string): boolean {
+	return pathname.startsWith('/.well-known/');
+}
+
+// Content type for a file under .well-known, or null to keep what the gateway sent
+// Matches the first segment after .well-known so nested paths like `lnurlp/alice` are covered too.
+export function getWellKnownContentType(pathname: string): string | null {
+	const name = pathname.replace(/^\/?\.well-known\//, '').split('/')[0].toLowerCase();
+	return WELL_KNOWN_CONTENT_TYPES[name] || null;
+}
@@ -0,0 +1,32 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { listAuditEntries, recordAuditEntry, shouldRecordFailedAuth } from '../../src/utils/audit';
+
+const entry = { keyName: 'deploys', method: 'POST', path: '/admin/custom-domains', status: 200, ip: '203.0.113.7' };
+
+describe('audit log', () => {
+	it('lists entries newest first with their body', async () => {
+		await recordAuditEntry(env, { ...entry, body: '{"domain":"first.example.com"}' });
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await recordAuditEntry(env, { ...entry, body: '{"domain":"second.example.com"}' });
+
+		const page = await listAuditEntries(env, {});
+		expect(page.entries.map((e) => e.body)).toEqual(['{"domain":"second.example.com"}', '{"domain":"first.example.com"}']);
+	});
+
+	it('truncates bodies so the entry fits in KV metadata', async () => {
+		await recordAuditEntry(env, { ...entry, body: `{"domains":"${'é'.repeat(2000)}"}` });
+
+		const [stored] = (await listAuditEntries(env, { limit: 1 })).entries;
+		expect(stored.body?.endsWith('…')).toBe(true);
+		expect(new TextEncoder().encode(JSON.stringify(stored)).byteLength).toBeLessThanOrEqual(1024);
+	});
+
+	it('only logs a few failed logins per IP and window', async () => {
+		const results = [];
+		for (let i = 0; i < 12; i++) results.push(await shouldRecordFailedAuth(env, '198.51.100.1'));
+
+		expect(results.filter(Boolean)).toHaveLength(10);
+		expect(await shouldRecordFailedAuth(env, '198.51.100.2')).toBe(true);
+	});
+});
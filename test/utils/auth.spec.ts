@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AdminKey, getRequiredScope, hasScope } from '../../src/utils/auth';
+
+describe('getRequiredScope', () => {
+	it('keeps the audit log out of plain read access', () => {
+		expect(getRequiredScope('/admin/audit-log', 'GET')).toBe('audit:read');
+		expect(getRequiredScope('/admin/custom-domains', 'GET')).toBe('read');
+		expect(getRequiredScope('/admin/functions/cron-status', 'GET')).toBe('read');
+	});
+
+	it('maps mutations to the area they change', () => {
+		expect(getRequiredScope('/admin/cache/invalidate', 'POST')).toBe('cache:write');
+		expect(getRequiredScope('/admin/functions/cron-index', 'POST')).toBe('functions:write');
+		expect(getRequiredScope('/admin/domains/backfill-metadata', 'POST')).toBe('domains:write');
+		expect(getRequiredScope('/admin/custom-domains', 'DELETE')).toBe('domains:write');
+	});
+});
+
+describe('hasScope', () => {
+	it('only lets `*` stand in for other scopes', () => {
+		const reader: AdminKey = { name: 'reader', key: 'k', scopes: ['read'] };
+		const admin: AdminKey = { name: 'admin', key: 'k', scopes: ['*'] };
+
+		expect(hasScope(reader, 'read')).toBe(true);
+		expect(hasScope(reader, 'audit:read')).toBe(false);
+		expect(hasScope(admin, 'audit:read')).toBe(true);
+	});
+});
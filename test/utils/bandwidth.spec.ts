@@ -0,0 +1,25 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { getBandwidthKey, getBandwidthUsage, recordBandwidth } from '../../src/utils/bandwidth';
+
+describe('bandwidth usage', () => {
+	it('counts bytes in the isolate until there are enough to write', async () => {
+		const ctx = createExecutionContext();
+		recordBandwidth(env, ctx, 'small', 1024);
+		await waitOnExecutionContext(ctx);
+
+		expect(await env.RATE_LIMIT.get(getBandwidthKey('small'))).toBeNull();
+		expect(await getBandwidthUsage(env, 'small')).toBe(1024);
+	});
+
+	it('adds large batches to the stored month to date total', async () => {
+		await env.RATE_LIMIT.put(getBandwidthKey('busy'), '500');
+
+		const ctx = createExecutionContext();
+		recordBandwidth(env, ctx, 'busy', 20 * 1024 * 1024);
+		await waitOnExecutionContext(ctx);
+
+		expect(await env.RATE_LIMIT.get(getBandwidthKey('busy'))).toBe(String(20 * 1024 * 1024 + 500));
+		expect(await getBandwidthUsage(env, 'busy')).toBe(20 * 1024 * 1024 + 500);
+	});
+});
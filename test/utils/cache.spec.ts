@@ -0,0 +1,50 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { getEdgeCacheKey, matchEdgeCache, storeInEdgeCache } from '../../src/utils/cache';
+
+const source = 'console.log("hello from the edge cache")';
+
+async function gzip(text: string): Promise<ArrayBuffer> {
+	return new Response(new Response(text).body!.pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+}
+
+async function gunzip(bytes: ArrayBuffer): Promise<string> {
+	return new Response(new Response(bytes).body!.pipeThrough(new DecompressionStream('gzip'))).text();
+}
+
+describe('edge cache', () => {
+	it('keys entries by CID, path and sorted variant', () => {
+		const key = getEdgeCacheKey('bafy', 'docs/index.html', { spa: false, origin: 'https://a.com', encoding: 'br' });
+		expect(key.url).toBe('https://cache.orbiter.internal/bafy/docs/index.html?encoding=br&origin=https%3A%2F%2Fa.com&spa=false');
+	});
+
+	it('restores the client Cache-Control on a hit', async () => {
+		const ctx = createExecutionContext();
+		const key = getEdgeCacheKey('bafy', 'style.css', {});
+		const stored = storeInEdgeCache(ctx, key, new Response('body{}', { headers: { 'Cache-Control': 'public, max-age=60' } }));
+		expect(stored.headers.get('orb-cache')).toBe('MISS');
+		await stored.text();
+		await waitOnExecutionContext(ctx);
+
+		const cached = await matchEdgeCache(key);
+		expect(cached?.headers.get('Cache-Control')).toBe('public, max-age=60');
+		expect(cached?.headers.get('orb-cache')).toBe('HIT');
+		expect(await cached?.text()).toBe('body{}');
+	});
+
+	it('serves pre-compressed entries encoded exactly once', async () => {
+		const ctx = createExecutionContext();
+		const key = getEdgeCacheKey('bafy', 'app.js', { encoding: 'gzip' });
+		const encoded = new Response(await gzip(source), {
+			headers: { 'Content-Encoding': 'gzip', 'Content-Type': 'application/javascript' },
+			encodeBody: 'manual',
+		});
+		await storeInEdgeCache(ctx, key, encoded, 'manual').arrayBuffer();
+		await waitOnExecutionContext(ctx);
+
+		const cached = await matchEdgeCache(key);
+		expect(cached?.headers.get('Content-Encoding')).toBe('gzip');
+		expect(cached?.headers.has('orb-content-encoding')).toBe(false);
+		expect(await gunzip(await cached!.arrayBuffer())).toBe(source);
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { getCorsHeaders, getCorsPolicy, preflightResponse } from '../../src/utils/cors';
+
+function request(origin: string | null, headers: Record<string, string> = {}, method = 'GET'): Request {
+	return new Request('https://site.orbiter.website/api/items', {
+		method,
+		headers: origin ? { Origin: origin, ...headers } : headers,
+	});
+}
+
+describe('getCorsPolicy', () => {
+	it('keeps the old wide open behaviour when nothing is configured', () => {
+		expect(getCorsHeaders(getCorsPolicy(undefined)!, request('https://a.com'))).toEqual({ 'Access-Control-Allow-Origin': '*' });
+	});
+
+	it('returns null when the functions handle CORS themselves', () => {
+		expect(getCorsPolicy(false)).toBeNull();
+	});
+
+	it('normalizes methods and caps maxAge', () => {
+		const policy = getCorsPolicy({ methods: ['get', 'post'], maxAge: 999999 })!;
+		expect(policy.methods).toEqual(['GET', 'POST']);
+		expect(policy.maxAge).toBe(86400);
+	});
+
+	it('drops credentials when every origin is allowed', () => {
+		expect(getCorsPolicy({ origins: ['*'], credentials: true })!.credentials).toBe(false);
+		expect(getCorsPolicy({ origins: ['https://app.example.com', '*'], credentials: true })!.credentials).toBe(false);
+		expect(getCorsPolicy({ origins: ['https://app.example.com'], credentials: true })!.credentials).toBe(true);
+	});
+});
+
+describe('getCorsHeaders', () => {
+	const policy = getCorsPolicy({ origins: ['https://app.example.com', 'https://*.example.org'], credentials: true, exposedHeaders: ['X-Total'] })!;
+
+	it('echoes an allowed origin with credentials', () => {
+		expect(getCorsHeaders(policy, request('https://app.example.com'))).toEqual({
+			'Access-Control-Allow-Origin': 'https://app.example.com',
+			'Access-Control-Allow-Credentials': 'true',
+			'Access-Control-Expose-Headers': 'X-Total',
+			Vary: 'Origin',
+		});
+	});
+
+	it('allows wildcard subdomains', () => {
+		expect(getCorsHeaders(policy, request('https://docs.example.org'))['Access-Control-Allow-Origin']).toBe('https://docs.example.org');
+		expect(getCorsHeaders(policy, request('https://example.org.evil.com'))['Access-Control-Allow-Origin']).toBeUndefined();
+	});
+
+	it('sends no origin or credentials to other origins, but still varies', () => {
+		const headers = getCorsHeaders(policy, request('https://evil.com'));
+		expect(headers['Access-Control-Allow-Origin']).toBeUndefined();
+		expect(headers['Access-Control-Allow-Credentials']).toBeUndefined();
+		expect(headers.Vary).toBe('Origin');
+	});
+
+	it('never reflects origins with credentials for a wildcard policy', () => {
+		const headers = getCorsHeaders(getCorsPolicy({ origins: ['*'], credentials: true })!, request('https://evil.com'));
+		expect(headers['Access-Control-Allow-Origin']).toBe('*');
+		expect(headers['Access-Control-Allow-Credentials']).toBeUndefined();
+	});
+});
+
+describe('preflightResponse', () => {
+	it('answers with the methods the route accepts', () => {
+		const response = preflightResponse(getCorsPolicy({ maxAge: 600 })!, request('https://a.com', {}, 'OPTIONS'), ['GET', 'POST']);
+		expect(response.status).toBe(204);
+		expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
+		expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, Authorization');
+		expect(response.headers.get('Access-Control-Max-Age')).toBe('600');
+	});
+
+	it('echoes requested headers when any header is allowed', () => {
+		const response = preflightResponse(
+			getCorsPolicy({ allowedHeaders: ['*'] })!,
+			request('https://a.com', { 'Access-Control-Request-Headers': 'x-custom, content-type' }, 'OPTIONS')
+		);
+		expect(response.headers.get('Access-Control-Allow-Headers')).toBe('x-custom, content-type');
+		expect(response.headers.get('Vary')).toBe('Access-Control-Request-Headers');
+	});
+
+	it('leaves out Access-Control-Allow-Headers when none are allowed', () => {
+		const response = preflightResponse(getCorsPolicy({ allowedHeaders: [] })!, request('https://a.com', {}, 'OPTIONS'));
+		expect(response.headers.has('Access-Control-Allow-Headers')).toBe(false);
+	});
+});
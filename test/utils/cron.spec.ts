@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { matchesCron, parseCron } from '../../src/utils/cron';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('parseCron', () => {
+	it('expands wildcards, ranges, steps and lists', () => {
+		const cron = parseCron('*/15 9-17/4 1,15 * 1-5');
+		expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...cron.hours]).toEqual([9, 13, 17]);
+		expect([...cron.daysOfMonth]).toEqual([1, 15]);
+		expect(cron.months.size).toBe(12);
+		expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+		expect(cron.dayOfMonthRestricted).toBe(true);
+		expect(cron.dayOfWeekRestricted).toBe(true);
+	});
+
+	it('treats 7 as Sunday', () => {
+		expect(parseCron('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+	});
+
+	it('rejects malformed expressions', () => {
+		for (const expression of ['* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *', '* * * * * *']) {
+			expect(() => parseCron(expression), expression).toThrow();
+		}
+	});
+});
+
+describe('matchesCron', () => {
+	it('matches in UTC', () => {
+		const cron = parseCron('30 2 * * *');
+		expect(matchesCron(cron, at('2025-03-04T02:30:00'))).toBe(true);
+		expect(matchesCron(cron, at('2025-03-04T02:31:00'))).toBe(false);
+	});
+
+	it('matches day of month or day of week when both are restricted', () => {
+		// The 13th, or any Friday
+		const cron = parseCron('0 12 13 * 5');
+		expect(matchesCron(cron, at('2025-05-13T12:00:00'))).toBe(true);
+		expect(matchesCron(cron, at('2025-05-16T12:00:00'))).toBe(true);
+		expect(matchesCron(cron, at('2025-05-14T12:00:00'))).toBe(false);
+	});
+
+	it('only needs the restricted day field when the other is a wildcard', () => {
+		const cron = parseCron('0 0 * * 0');
+		expect(matchesCron(cron, at('2025-05-18T00:00:00'))).toBe(true);
+		expect(matchesCron(cron, at('2025-05-19T00:00:00'))).toBe(false);
+	});
+});
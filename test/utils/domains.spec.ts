@@ -0,0 +1,55 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import {
+	backfillDomainMetadata,
+	LegacyDomainMapping,
+	listAllDomainMappings,
+	listDomainMappings,
+	MetadataBackfillRequiredError,
+} from '../../src/utils/domains';
+
+function legacyMapping(subdomain: string): LegacyDomainMapping {
+	return { subdomain, created: '2024-06-01T00:00:00.000Z', type: 'digital-ocean' };
+}
+
+// Entries written before mappings carried metadata
+async function putWithoutMetadata(count: number, subdomain = 'blog'): Promise<void> {
+	const value = JSON.stringify(legacyMapping(subdomain));
+	const names = Array.from({ length: count }, (_, i) => `site-${String(i).padStart(3, '0')}.example.com`);
+	await Promise.all(names.map((name) => env.LEGACY_DOMAINS.put(name, value)));
+}
+
+describe('listDomainMappings', () => {
+	it('reads mappings without metadata individually and filters by subdomain', async () => {
+		await env.LEGACY_DOMAINS.put('with-metadata.example.com', JSON.stringify(legacyMapping('shop')), { metadata: legacyMapping('shop') });
+		await putWithoutMetadata(3);
+
+		const page = await listDomainMappings(env, 'legacy', { subdomain: 'blog' });
+		expect(page.domains.map((entry) => entry.domain)).toEqual(['site-000.example.com', 'site-001.example.com', 'site-002.example.com']);
+		expect(page.domains[0].mapping).toEqual(legacyMapping('blog'));
+		expect(page.complete).toBe(true);
+	});
+
+	it('asks for a backfill instead of reading too many mappings one by one', async () => {
+		await putWithoutMetadata(101);
+
+		await expect(listAllDomainMappings(env, 'legacy')).rejects.toBeInstanceOf(MetadataBackfillRequiredError);
+		await expect(listDomainMappings(env, 'legacy', { limit: 50 })).resolves.toMatchObject({ complete: false });
+	});
+});
+
+describe('backfillDomainMetadata', () => {
+	it('stores each mapping as its own metadata, a page at a time', async () => {
+		await putWithoutMetadata(150);
+
+		const first = await backfillDomainMetadata(env, 'legacy');
+		expect(first).toMatchObject({ updated: 100, complete: false });
+
+		const second = await backfillDomainMetadata(env, 'legacy', first.cursor);
+		expect(second).toEqual({ updated: 50, cursor: null, complete: true });
+
+		const { keys } = await env.LEGACY_DOMAINS.list();
+		expect(keys.every((key) => key.metadata)).toBe(true);
+		expect(await listAllDomainMappings(env, 'legacy')).toHaveLength(150);
+	});
+});
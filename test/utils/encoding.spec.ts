@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getAcceptedEncodings, getCompressibleType } from '../../src/utils/encoding';
+
+describe('getAcceptedEncodings', () => {
+	it('prefers brotli over gzip at equal weight', () => {
+		expect(getAcceptedEncodings('gzip, deflate, br')).toEqual(['br', 'gzip']);
+	});
+
+	it('orders by q value and drops refused encodings', () => {
+		expect(getAcceptedEncodings('br;q=0.5, gzip')).toEqual(['gzip', 'br']);
+		expect(getAcceptedEncodings('br;q=0, gzip;q=0.1')).toEqual(['gzip']);
+	});
+
+	it('applies the wildcard to encodings not listed', () => {
+		expect(getAcceptedEncodings('gzip;q=0, *')).toEqual(['br']);
+	});
+
+	it('accepts nothing without a header or for identity', () => {
+		expect(getAcceptedEncodings(null)).toEqual([]);
+		expect(getAcceptedEncodings('identity')).toEqual([]);
+	});
+});
+
+describe('getCompressibleType', () => {
+	it('only negotiates text based assets', () => {
+		expect(getCompressibleType('assets/app.JS')).toBe('application/javascript');
+		expect(getCompressibleType('logo.png')).toBeNull();
+		expect(getCompressibleType('README')).toBeNull();
+	});
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { checkEntitlement, getEntitlements } from '../../src/utils/entitlements';
+
+const GB = 1024 * 1024 * 1024;
+
+describe('checkEntitlement', () => {
+	it('allows what the plan includes', () => {
+		expect(checkEntitlement(getEntitlements('orbit'), 'passwordProtection')).toBeNull();
+		// Orgs without a plan have always been treated as paid
+		expect(checkEntitlement(getEntitlements(null), 'redirects')).toBeNull();
+	});
+
+	it('answers anything else with upgrade_required', async () => {
+		const response = checkEntitlement(getEntitlements('free'), 'customHeaders');
+		expect(response?.status).toBe(402);
+		expect(await response?.json()).toMatchObject({ error: { code: 'upgrade_required', feature: 'customHeaders', plan: 'free' } });
+	});
+
+	it('allows bandwidth until the monthly cap is used up', async () => {
+		const free = getEntitlements('free');
+		expect(checkEntitlement(free, 'bandwidth', { bandwidthBytes: 10 * GB - 1 })).toBeNull();
+
+		const response = checkEntitlement(free, 'bandwidth', { bandwidthBytes: 10 * GB });
+		expect(await response?.json()).toMatchObject({ error: { code: 'upgrade_required', feature: 'bandwidth' } });
+
+		expect(checkEntitlement(getEntitlements('orbit'), 'bandwidth', { bandwidthBytes: 1000 * GB })).toBeNull();
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedHostUrl, matchesHostPattern, parseHostList } from '../../src/utils/hosts';
+
+describe('host allow lists', () => {
+	it('matches exact hosts and subdomain wildcards', () => {
+		const patterns = parseHostList(' api.stripe.com, *.example.com ,');
+		expect(patterns).toEqual(['api.stripe.com', '*.example.com']);
+
+		expect(matchesHostPattern('API.stripe.com', patterns)).toBe(true);
+		expect(matchesHostPattern('cdn.example.com', patterns)).toBe(true);
+		expect(matchesHostPattern('example.com', patterns)).toBe(false);
+		expect(matchesHostPattern('evilexample.com', patterns)).toBe(false);
+	});
+
+	it('only allows http(s) URLs', () => {
+		expect(isAllowedHostUrl('https://api.stripe.com/v1/charges', ['api.stripe.com'])).toBe(true);
+		expect(isAllowedHostUrl('ftp://api.stripe.com/', ['api.stripe.com'])).toBe(false);
+		expect(isAllowedHostUrl('not a url', ['api.stripe.com'])).toBe(false);
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { HtmlRewriteOptions, rewriteAssetPath, rewriteCssUrls, rewriteHtml, rewriteSrcset } from '../../src/utils/html';
+
+const options: HtmlRewriteOptions = { baseUrl: 'https://docs.orbiter.website/guide/', pathContext: '/guide/' };
+const versioned: HtmlRewriteOptions = { ...options, versionCid: 'bafyversion' };
+
+async function rewrite(html: string, rewriteOptions = options): Promise<string> {
+	const response = new Response(html, { headers: { 'Content-Type': 'text/html' } });
+	return rewriteHtml(response, rewriteOptions).text();
+}
+
+describe('rewriteAssetPath', () => {
+	it('resolves relative paths from the path context', () => {
+		expect(rewriteAssetPath('img/logo.png', options)).toBe('/guide/img/logo.png');
+		expect(rewriteAssetPath(' ./app.js ', options)).toBe('/guide/./app.js');
+		expect(rewriteAssetPath('/styles.css', options)).toBe('/styles.css');
+	});
+
+	it('leaves absolute URLs, fragments and special schemes alone', () => {
+		for (const path of ['https://cdn.example.com/a.js', '//cdn.example.com/a.js', '#top', 'data:image/png;base64,AAA', 'mailto:hi@example.com', '']) {
+			expect(rewriteAssetPath(path, versioned)).toBe(path);
+		}
+	});
+
+	it('appends the version CID before any fragment', () => {
+		expect(rewriteAssetPath('sprite.svg#icon', versioned)).toBe('/guide/sprite.svg?orbiterVersionCid=bafyversion#icon');
+		expect(rewriteAssetPath('/app.js?v=2', versioned)).toBe('/app.js?v=2&orbiterVersionCid=bafyversion');
+	});
+});
+
+describe('rewriteSrcset', () => {
+	it('rewrites every candidate and keeps descriptors', () => {
+		expect(rewriteSrcset('small.jpg 480w,large.jpg 1080w, /hero.jpg 2x', options)).toBe(
+			'/guide/small.jpg 480w, /guide/large.jpg 1080w, /hero.jpg 2x'
+		);
+	});
+
+	it("doesn't split data URIs on their commas", () => {
+		expect(rewriteSrcset('data:image/png;base64,AAA= 1x, retina.png 2x', options)).toBe('data:image/png;base64,AAA= 1x, /guide/retina.png 2x');
+	});
+
+	it('handles candidates without descriptors and trailing commas', () => {
+		expect(rewriteSrcset('a.png, b.png,', options)).toBe('/guide/a.png, /guide/b.png');
+	});
+});
+
+describe('rewriteCssUrls', () => {
+	it('rewrites quoted and unquoted urls', () => {
+		expect(rewriteCssUrls(`body { background: url("bg.png") } .a { mask: url( icons/a.svg ) } .b { src: url('/font.woff2') }`, versioned)).toBe(
+			`body { background: url("/guide/bg.png?orbiterVersionCid=bafyversion") } .a { mask: url(/guide/icons/a.svg?orbiterVersionCid=bafyversion) } .b { src: url('/font.woff2?orbiterVersionCid=bafyversion') }`
+		);
+	});
+
+	it('leaves data and absolute urls untouched', () => {
+		const css = `.a { background: url(data:image/gif;base64,R0lGOD) } .b { background: url(https://cdn.example.com/b.png) }`;
+		expect(rewriteCssUrls(css, options)).toBe(css);
+	});
+});
+
+describe('rewriteHtml', () => {
+	it('rewrites a full document', async () => {
+		const html = `<!DOCTYPE html>
+<html>
+<head>
+<title>Guide</title>
+<link rel="stylesheet" href="style.css">
+<link rel="preload" as="image" imagesrcset="hero.jpg 1x, hero@2x.jpg 2x">
+<style>.hero { background: url(hero.jpg) }</style>
+</head>
+<body>
+<a href="#main">Skip</a>
+<img src="logo.png" srcset="logo.png 1x, logo@2x.png 2x" alt="">
+<div style="background-image: url('tile.png')"></div>
+<video poster="poster.jpg" src="https://cdn.example.com/v.mp4"></video>
+<script src="app.js"></script>
+<script>const url = "not/rewritten.js";</script>
+</body>
+</html>
+`;
+		await expect(await rewrite(html, versioned)).toMatchFileSnapshot('__golden__/document.html');
+	});
+
+	it("keeps the site's own <base> when only <meta> and <title> come before it", async () => {
+		const html = `<html><head><meta charset="utf-8"><title>App</title><base href="https://example.com/"><link href="a.css"></head><body></body></html>`;
+		await expect(await rewrite(html)).toMatchFileSnapshot('__golden__/own-base.html');
+	});
+
+	it('puts <base> before the first element of a document without <head>', async () => {
+		const html = `<!DOCTYPE html><meta charset="utf-8"><link href="a.css"><body><img src="b.png"></body>`;
+		await expect(await rewrite(html)).toMatchFileSnapshot('__golden__/no-head.html');
+	});
+
+	it('puts <base> at the start of a fragment', async () => {
+		const html = `<p>Hello</p><img src="b.png">`;
+		await expect(await rewrite(html)).toMatchFileSnapshot('__golden__/fragment.html');
+	});
+});
@@ -0,0 +1,52 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { migrateLegacyDomains } from '../../src/utils/migration';
+
+const domain = 'www.example.com';
+
+function mockCustomHostname(status: string) {
+	fetchMock
+		.get('https://api.cloudflare.com')
+		.intercept({ path: `/client/v4/zones/${env.CLOUDFLARE_ZONE_ID}/custom_hostnames/ch-1` })
+		.reply(200, { success: true, result: { id: 'ch-1', hostname: domain, status } });
+}
+
+describe('migrateLegacyDomains', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	async function seed() {
+		await env.ORBITER_SITES.put('blog', 'bafysite');
+		await env.LEGACY_DOMAINS.put(domain, JSON.stringify({ subdomain: 'blog', created: '2024-01-01T00:00:00.000Z', type: 'digital-ocean' }));
+	}
+
+	it('reports what a dry run would do without claiming it was done', async () => {
+		await seed();
+		mockCustomHostname('active');
+
+		const [result] = await migrateLegacyDomains([{ domain, cloudflare_hostname_id: 'ch-1' }], env, true);
+		expect(result).toMatchObject({
+			status: 'migrated',
+			mappingWritten: false,
+			legacyDeleted: false,
+			wouldWrite: true,
+			wouldDeleteLegacy: true,
+		});
+		expect(await env.CUSTOM_DOMAINS.get(domain)).toBeNull();
+		expect(await env.LEGACY_DOMAINS.get(domain)).not.toBeNull();
+	});
+
+	it('keeps the legacy mapping until the hostname is active', async () => {
+		await seed();
+		mockCustomHostname('pending');
+
+		const [result] = await migrateLegacyDomains([{ domain, cloudflare_hostname_id: 'ch-1' }], env, false);
+		expect(result).toMatchObject({ status: 'pending_activation', mappingWritten: true, legacyDeleted: false });
+		expect(result.wouldWrite).toBeUndefined();
+		expect(await env.LEGACY_DOMAINS.get(domain)).not.toBeNull();
+	});
+});
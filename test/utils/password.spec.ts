@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { hashSitePassword, PasswordProtection, verifySitePassword } from '../../src/utils/password';
+
+function withCredentials(username: string, password: string): Request {
+	return new Request('https://secret.orbiter.website/', { headers: { Authorization: `Basic ${btoa(`${username}:${password}`)}` } });
+}
+
+describe('verifySitePassword', () => {
+	it('accepts the right password and username', async () => {
+		const protection: PasswordProtection = { username: 'team', salt: 'pepper', passwordHash: await hashSitePassword('pepper', 'hunter2') };
+
+		expect(await verifySitePassword(withCredentials('team', 'hunter2'), protection)).toBe(true);
+		expect(await verifySitePassword(withCredentials('team', 'hunter3'), protection)).toBe(false);
+		expect(await verifySitePassword(withCredentials('someone', 'hunter2'), protection)).toBe(false);
+	});
+
+	it('accepts any username when none is set', async () => {
+		const protection: PasswordProtection = { salt: 'pepper', passwordHash: await hashSitePassword('pepper', 'pa:ss') };
+		expect(await verifySitePassword(withCredentials('anyone', 'pa:ss'), protection)).toBe(true);
+	});
+
+	it('rejects requests without Basic credentials', async () => {
+		const protection: PasswordProtection = { salt: 'pepper', passwordHash: await hashSitePassword('pepper', 'hunter2') };
+		expect(await verifySitePassword(new Request('https://secret.orbiter.website/'), protection)).toBe(false);
+		expect(
+			await verifySitePassword(new Request('https://secret.orbiter.website/', { headers: { Authorization: 'Bearer hunter2' } }), protection)
+		).toBe(false);
+	});
+});
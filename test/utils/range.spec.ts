@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { parseRangeHeader, sliceStream, StreamSegment } from '../../src/utils/range';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// A body delivered in uneven chunks, so ranges straddle chunk boundaries
+function chunkedStream(text: string, chunkSizes: number[]): ReadableStream<Uint8Array> {
+	const bytes = encoder.encode(text);
+	const chunks: Uint8Array[] = [];
+	let offset = 0;
+	for (let i = 0; offset < bytes.length; i++) {
+		const size = chunkSizes[i % chunkSizes.length];
+		chunks.push(bytes.slice(offset, offset + size));
+		offset += size;
+	}
+
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const chunk = chunks.shift();
+			if (chunk) controller.enqueue(chunk);
+			else controller.close();
+		},
+	});
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+	return decoder.decode(await new Response(stream).arrayBuffer());
+}
+
+describe('parseRangeHeader', () => {
+	it('parses closed, open ended and suffix ranges', () => {
+		expect(parseRangeHeader('bytes=0-99', 1000)).toEqual([{ start: 0, end: 99 }]);
+		expect(parseRangeHeader('bytes=900-', 1000)).toEqual([{ start: 900, end: 999 }]);
+		expect(parseRangeHeader('bytes=-100', 1000)).toEqual([{ start: 900, end: 999 }]);
+	});
+
+	it('clamps ranges past the end of the content', () => {
+		expect(parseRangeHeader('bytes=500-5000', 1000)).toEqual([{ start: 500, end: 999 }]);
+		expect(parseRangeHeader('bytes=-5000', 1000)).toEqual([{ start: 0, end: 999 }]);
+	});
+
+	it('sorts and coalesces overlapping and adjacent ranges', () => {
+		expect(parseRangeHeader('bytes=500-599, 0-99, 50-149, 150-199', 1000)).toEqual([
+			{ start: 0, end: 199 },
+			{ start: 500, end: 599 },
+		]);
+	});
+
+	it('returns an empty array when nothing is satisfiable', () => {
+		expect(parseRangeHeader('bytes=1000-', 1000)).toEqual([]);
+		expect(parseRangeHeader('bytes=-0', 1000)).toEqual([]);
+		expect(parseRangeHeader('bytes=0-10', 0)).toEqual([]);
+	});
+
+	it('returns null for headers that should be ignored', () => {
+		expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+		expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+		expect(parseRangeHeader('bytes=10-5', 1000)).toBeNull();
+		expect(parseRangeHeader('bytes=a-b', 1000)).toBeNull();
+		expect(parseRangeHeader(`bytes=${Array.from({ length: 17 }, (_, i) => `${i * 10}-${i * 10 + 1}`).join(',')}`, 1000)).toBeNull();
+	});
+});
+
+describe('sliceStream', () => {
+	const body = 'abcdefghijklmnopqrstuvwxyz';
+
+	it('streams a single range spanning several chunks', async () => {
+		const segments: StreamSegment[] = [{ range: { start: 3, end: 17 } }];
+		expect(await readText(sliceStream(chunkedStream(body, [4, 7, 2]), segments))).toBe('defghijklmnopqr');
+	});
+
+	it('streams several ranges with their prefixes and a suffix', async () => {
+		const segments: StreamSegment[] = [
+			{ range: { start: 0, end: 1 }, prefix: encoder.encode('[') },
+			{ range: { start: 5, end: 6 }, prefix: encoder.encode('|') },
+			{ range: { start: 24, end: 25 }, prefix: encoder.encode('|') },
+		];
+		expect(await readText(sliceStream(chunkedStream(body, [3]), segments, encoder.encode(']')))).toBe('[ab|fg|yz]');
+	});
+
+	it('handles ranges inside a single chunk', async () => {
+		const segments: StreamSegment[] = [{ range: { start: 1, end: 2 } }, { range: { start: 4, end: 4 } }];
+		expect(await readText(sliceStream(chunkedStream(body, [26]), segments))).toBe('bce');
+	});
+
+	it('errors when the body ends before the range', async () => {
+		const segments: StreamSegment[] = [{ range: { start: 20, end: 40 } }];
+		await expect(readText(sliceStream(chunkedStream(body, [5]), segments))).rejects.toThrow('Upstream body ended before the requested range');
+	});
+});
@@ -0,0 +1,136 @@
+import { createExecutionContext, env, fetchMock, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import worker from '../../src';
+import { compileRedirects, matchRedirect, parseRedirectsFile, Redirect } from '../../src/utils/redirects';
+
+function match(redirects: Redirect[], url: string, options?: { forceMatchesPrefix?: boolean }) {
+	const { pathname, searchParams } = new URL(url, 'https://site.orbiter.website');
+	return matchRedirect(compileRedirects(redirects, options), pathname, searchParams);
+}
+
+describe('matchRedirect precedence', () => {
+	const rules: Redirect[] = [
+		{ source: '/blog/*', destination: '/news/:splat', status: 301 },
+		{ source: '/blog/:slug', destination: '/posts/:slug', status: 301 },
+		{ source: '/blog/featured', destination: '/featured', status: 302 },
+		{ source: '/blog/:slug', destination: '/preview/:slug', status: 302, query: { preview: 'true' } },
+	];
+
+	it('prefers exact sources over placeholders and splats, whatever order they were declared in', () => {
+		expect(match(rules, '/blog/featured')?.destination).toBe('/featured');
+	});
+
+	it('prefers placeholders over splats', () => {
+		expect(match(rules, '/blog/hello')?.destination).toBe('/posts/hello');
+	});
+
+	it('falls through to splats for deeper paths', () => {
+		expect(match(rules, '/blog/2024/hello')?.destination).toBe('/news/2024/hello');
+		expect(match(rules, '/blog')?.destination).toBe('/news/');
+	});
+
+	it('tries rules with query conditions first within a tier', () => {
+		expect(match(rules, '/blog/hello?preview=true')?.destination).toBe('/preview/hello');
+		expect(match(rules, '/blog/hello?preview=false')?.destination).toBe('/posts/hello');
+	});
+
+	it('keeps declaration order between rules of the same tier', () => {
+		const ordered: Redirect[] = [
+			{ source: '/a/:x', destination: '/first/:x', status: 301 },
+			{ source: '/a/:y', destination: '/second/:y', status: 301 },
+		];
+		expect(match(ordered, '/a/1')?.destination).toBe('/first/1');
+	});
+
+	it('captures query placeholders', () => {
+		expect(match([{ source: '/search', destination: '/find/:q', status: 301, query: { q: ':q' } }], '/search?q=rockets')?.destination).toBe(
+			'/find/rockets'
+		);
+	});
+
+	it('skips rules that point back at the current path', () => {
+		expect(match([{ source: '/*', destination: '/index.html', status: 200 }], '/index.html')).toBeNull();
+	});
+
+	it('treats forced dashboard rules as prefix matches', () => {
+		const forced: Redirect[] = [{ source: '/docs', destination: '/help', status: 301, force: true }];
+		expect(match(forced, '/docs/setup')?.destination).toBe('/help');
+		expect(match(forced, '/docs/setup', { forceMatchesPrefix: false })).toBeNull();
+	});
+});
+
+describe('parseRedirectsFile', () => {
+	it('parses statuses, forced rules and query conditions', () => {
+		const file = `# Comments and blank lines are skipped
+
+/old /new
+/shop/* https://shop.example.com/:splat 302!
+/search q=:q /find/:q 301
+/* /index.html 200
+/en/* /en/404.html 404 Country=us
+`;
+		expect(parseRedirectsFile(file)).toEqual([
+			{ source: '/old', destination: '/new', status: 301 },
+			{ source: '/shop/*', destination: 'https://shop.example.com/:splat', status: 302, force: true },
+			{ source: '/search', destination: '/find/:q', status: 301, query: { q: ':q' } },
+			{ source: '/*', destination: '/index.html', status: 200 },
+		]);
+	});
+});
+
+describe('_redirects rules with a 4xx status', () => {
+	// Routing files are cached per CID for the life of the isolate, so each test deploys its own
+	const cids = {
+		lost: 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+		forbidden: 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy',
+	};
+	const gateway = 'https://cdn.orbiter.host';
+	const page = '<html><head><title>Not found</title></head><body>Lost in space</body></html>';
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	function mockGateway(siteKey: keyof typeof cids, path: string, status: number, body = '', contentType = 'text/plain') {
+		fetchMock
+			.get(gateway)
+			.intercept({ path: `/ipfs/${cids[siteKey]}${path}` })
+			.reply(status, body, { headers: { 'Content-Type': contentType } });
+	}
+
+	async function request(siteKey: keyof typeof cids, path: string) {
+		await env.ORBITER_SITES.put(siteKey, cids[siteKey]);
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(new Request(`https://${siteKey}.orbiter.website${path}`), { ...env, PINATA_GATEWAY: gateway }, ctx);
+		const body = await response.text();
+		await waitOnExecutionContext(ctx);
+		return { response, body };
+	}
+
+	it('serves the destination with the rule status when no file exists at the path', async () => {
+		mockGateway('lost', '/_redirects', 200, '/* /404.html 404');
+		mockGateway('lost', '/_headers', 404);
+		mockGateway('lost', '/missing/index.html', 404);
+		mockGateway('lost', '/missing.html', 404);
+		mockGateway('lost', '/404.html', 200, page, 'text/html');
+
+		const { response, body } = await request('lost', '/missing');
+		expect(response.status).toBe(404);
+		expect(response.headers.get('Location')).toBeNull();
+		expect(body).toContain('Lost in space');
+	});
+
+	it('serves the destination for forced rules without looking for a file', async () => {
+		mockGateway('forbidden', '/_redirects', 200, '/private/* /403.html 403!');
+		mockGateway('forbidden', '/_headers', 404);
+		mockGateway('forbidden', '/403.html', 200, page, 'text/html');
+
+		const { response, body } = await request('forbidden', '/private/report.pdf');
+		expect(response.status).toBe(403);
+		expect(response.headers.get('Location')).toBeNull();
+		expect(body).toContain('Lost in space');
+	});
+});
@@ -0,0 +1,79 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { getCronStatus, runScheduledFunctions, scanCronIndex, updateCronIndex } from '../../src/utils/scheduled';
+
+const hourly = JSON.stringify({ deployedName: 'reports', crons: [{ schedule: '0 * * * *' }] });
+const everyMinute = JSON.stringify({ deployedName: 'sync', crons: [{ schedule: '* * * * *' }] });
+
+describe('cron index', () => {
+	it('only lists sites with crons', async () => {
+		await env.FUNCTIONS.put('worker:reports', hourly);
+		await env.FUNCTIONS.put('worker:api-only', JSON.stringify({ deployedName: 'api-only' }));
+
+		const index = await scanCronIndex(env);
+		expect(index.sites).toEqual({ reports: ['0 * * * *'] });
+		expect(index.scan).toBeNull();
+		expect(JSON.parse((await env.FUNCTIONS.get('cron-index'))!)).toEqual(index);
+	});
+
+	it('scans a page of records per tick and drops sites whose record is gone', async () => {
+		for (let i = 0; i < 60; i++) {
+			await env.FUNCTIONS.put(`worker:site-${i.toString().padStart(2, '0')}`, hourly);
+		}
+
+		const first = await scanCronIndex(env);
+		expect(Object.keys(first.sites)).toHaveLength(50);
+		expect(first.scan?.after).toBe('worker:site-49');
+
+		await env.FUNCTIONS.delete('worker:site-55');
+		const second = await scanCronIndex(env);
+		expect(Object.keys(second.sites)).toHaveLength(59);
+		expect(second.sites['site-55']).toBeUndefined();
+		expect(second.scan).toBeNull();
+
+		await env.FUNCTIONS.delete('worker:site-00');
+		expect((await scanCronIndex(env)).sites['site-00']).toBeUndefined();
+	});
+
+	it('updates and removes a single site', async () => {
+		await env.FUNCTIONS.put('worker:reports', hourly);
+		await scanCronIndex(env);
+
+		await env.FUNCTIONS.put('worker:digest', JSON.stringify({ deployedName: 'digest', crons: [{ schedule: '0 8 * * 1' }] }));
+		expect((await updateCronIndex(env, 'digest')).sites).toEqual({ reports: ['0 * * * *'], digest: ['0 8 * * 1'] });
+
+		await env.FUNCTIONS.delete('worker:reports');
+		expect((await updateCronIndex(env, 'reports')).sites).toEqual({ digest: ['0 8 * * 1'] });
+	});
+});
+
+describe('runScheduledFunctions', () => {
+	const tick = new Date('2025-01-01T00:01:00Z');
+
+	it("records a skipped run while the site's previous run holds its lock", async () => {
+		await env.FUNCTIONS.put('worker:sync', everyMinute);
+		await env.FUNCTIONS.put('cron-lock:sync', 'earlier-run');
+
+		await runScheduledFunctions(env, tick);
+
+		expect(await env.FUNCTIONS.get('cron-lock:sync')).toBe('earlier-run');
+		expect(Object.values((await getCronStatus(env, 'sync'))!)).toMatchObject([
+			{ script: 'sync', lastResult: 'skipped', lastError: 'Previous run still in progress' },
+		]);
+	});
+
+	it('runs other sites while one is locked and releases only its own lock', async () => {
+		await env.FUNCTIONS.put('worker:sync', everyMinute);
+		await env.FUNCTIONS.put('worker:feeds', JSON.stringify({ deployedName: 'feeds', crons: [{ schedule: '* * * * *' }] }));
+		await env.FUNCTIONS.put('cron-lock:sync', 'earlier-run');
+		// Free plans skip before dispatching, which keeps the dispatcher out of the test
+		await env.SITE_TO_ORG.put('feeds', 'org-free');
+		await env.SITE_PLANS.put('org-free', 'free');
+
+		await runScheduledFunctions(env, tick);
+
+		expect(Object.values((await getCronStatus(env, 'feeds'))!)).toMatchObject([{ script: 'feeds', lastError: 'Plan does not include API functions' }]);
+		expect(await env.FUNCTIONS.get('cron-lock:feeds')).toBeNull();
+		expect(await env.FUNCTIONS.get('cron-lock:sync')).toBe('earlier-run');
+	});
+});